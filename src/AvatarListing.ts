@@ -1,151 +1,41 @@
-import { BigNumber, BigNumberish, ethers, Signer } from 'ethers'
-import { Provider, TransactionReceipt } from '@ethersproject/providers'
+import { Signer } from 'ethers'
+import { Provider } from '@ethersproject/providers'
 import {
   AvatarListing as AvatarListingContract,
   AvatarListing__factory,
 } from '@motif-foundation/listing/dist/typechain'
-import mainnetAddresses from '@motif-foundation/listing/dist/addresses/1.json'
-import ropstenAddresses from '@motif-foundation/listing/dist/addresses/3.json'
-import polygonAddresses from '@motif-foundation/listing/dist/addresses/137.json'
-import binanceAddresses from '@motif-foundation/listing/dist/addresses/56.json'
-import motifAddresses from '@motif-foundation/listing/dist/addresses/7018.json'
-import motifTestnetAddresses from '@motif-foundation/listing/dist/addresses/7019.json'
-import { addresses } from './addresses'
-import { chainIdToNetworkName, validateAndParseAddress } from './utils'
+import { MotifList, MotifListing } from './MotifListing'
+import { MotifConfig } from './types'
 
-const avatarListingAddresses: { [key: string]: string } = {
-  mainnet: mainnetAddresses.avatarListing,
-  ropsten: ropstenAddresses.avatarListing,
-  polygon: polygonAddresses.avatarListing,
-  binance: binanceAddresses.avatarListing,
-  motif: motifAddresses.avatarListing,
-  motifTestnet: motifTestnetAddresses.avatarListing,
-}
-
-export interface AvatarList {
-  approved: boolean
-  amount: BigNumber
-  startsAt: BigNumber
-  duration: BigNumber
-  firstBidTime: BigNumber
-  listPrice: BigNumber
-  listType: number
-  intermediaryFeePercentage: number
-  tokenOwner: string
-  bidder: string
-  intermediary: string
-  listCurrency: string
-}
-
-export class AvatarListing {
-  public readonly chainId: number
-  public readonly readOnly: boolean
-  public readonly signerOrProvider: Signer | Provider
-  public readonly avatarListing: AvatarListingContract
-  public avatarAddress: string
+export type AvatarList = MotifList
 
+export class AvatarListing extends MotifListing<AvatarListingContract> {
   constructor(
     signerOrProvider: Signer | Provider,
     chainId: number,
-    avatarAddress?: string
+    avatarAddress?: string,
+    avatarListingAddress?: string,
+    config?: MotifConfig
   ) {
-    this.chainId = chainId
-    this.readOnly = !Signer.isSigner(signerOrProvider)
-    this.signerOrProvider = signerOrProvider
-    const network = chainIdToNetworkName(chainId)
-    const address = avatarListingAddresses[network]
-    this.avatarListing = AvatarListing__factory.connect(address, signerOrProvider)
-
-    if (avatarAddress) {
-      const parsedAvatarAddress = validateAndParseAddress(avatarAddress)
-      this.avatarAddress = parsedAvatarAddress
-    } else {
-      this.avatarAddress = addresses[network].avatar
-    }
-  }
-
-  public async fetchListing(listingId: BigNumberish): Promise<AvatarList> {
-    return this.avatarListing.listings(listingId)
-  }
-
-  public async fetchListingFromTransactionReceipt(
-    receipt: TransactionReceipt
-  ): Promise<AvatarList | null> {
-    for (const log of receipt.logs) {
-      const description = this.avatarListing.interface.parseLog(log)
-
-      if (description.args.listingId && log.address === this.avatarListing.address) {
-        return this.fetchListing(description.args.listingId)
-      }
-    }
-
-    return null
-  }
-
-  public async createListing(
-    tokenId: BigNumberish,
-    startsAt: BigNumberish,
-    duration: BigNumberish,
-    listPrice: BigNumberish,
-    listType: number,
-    intermediary: string,
-    intermediaryFeePercentages: number,
-    listCurrency: string,
-    tokenAddress: string = this.avatarAddress
-  ) {
-    return this.avatarListing.createListing(
-      tokenId,
-      tokenAddress,
-      startsAt,
-      duration,
-      listPrice,
-      listType,
-      intermediary,
-      intermediaryFeePercentages,
-      listCurrency
+    super(
+      signerOrProvider,
+      chainId,
+      { key: 'avatar', listingFactory: AvatarListing__factory },
+      avatarAddress,
+      avatarListingAddress,
+      config
     )
   }
 
-  public async setListingApproval(listingId: BigNumberish, approved: boolean) {
-    return this.avatarListing.setListingApproval(listingId, approved)
-  }
-
-  public async setListingDropApproval(
-    listingId: BigNumberish,
-    approved: boolean,
-    startsAt: BigNumberish
-  ) {
-    return this.avatarListing.setListingDropApproval(listingId, approved, startsAt)
-  }
-
-  public async setListingListPrice(listingId: BigNumberish, listPrice: BigNumberish) {
-    return this.avatarListing.setListingListPrice(listingId, listPrice)
-  }
-
-  public async createBid(listingId: BigNumberish, amount: BigNumberish) {
-    const { listCurrency } = await this.avatarListing.listings(listingId)
-    // If ETH listing, include the ETH in this transaction
-    if (listCurrency === ethers.constants.AddressZero) {
-      return this.avatarListing.createBid(listingId, amount, { value: amount })
-    } else {
-      return this.avatarListing.createBid(listingId, amount)
-    }
-  }
-
-  public async endFixedPriceListing(listingId: BigNumberish, amount: BigNumberish) {
-    const { listCurrency } = await this.avatarListing.listings(listingId)
-    if (listCurrency === ethers.constants.AddressZero) {
-      return this.avatarListing.endFixedPriceListing(listingId, amount, { value: amount })
-    } else {
-      return this.avatarListing.endFixedPriceListing(listingId, amount)
-    }
+  public get avatarListing(): AvatarListingContract {
+    return this.listing
   }
 
-  public async endListing(listingId: BigNumberish) {
-    return this.avatarListing.endListing(listingId)
+  public get avatarAddress(): string {
+    return this.tokenAddress
   }
 
-  public async cancelListing(listingId: BigNumberish) {
-    return this.avatarListing.cancelListing(listingId)
+  public set avatarAddress(avatarAddress: string) {
+    this.tokenAddress = avatarAddress
   }
 }
@@ -1,151 +1,41 @@
-import { BigNumber, BigNumberish, ethers, Signer } from 'ethers'
-import { Provider, TransactionReceipt } from '@ethersproject/providers'
+import { Signer } from 'ethers'
+import { Provider } from '@ethersproject/providers'
 import {
   LandListing as LandListingContract,
   LandListing__factory,
 } from '@motif-foundation/listing/dist/typechain'
-import mainnetAddresses from '@motif-foundation/listing/dist/addresses/1.json'
-import ropstenAddresses from '@motif-foundation/listing/dist/addresses/3.json'
-import motifAddresses from '@motif-foundation/listing/dist/addresses/7018.json'
-import motifTestnetAddresses from '@motif-foundation/listing/dist/addresses/7019.json'
-import polygonAddresses from '@motif-foundation/listing/dist/addresses/137.json'
-import binanceAddresses from '@motif-foundation/listing/dist/addresses/56.json'
-import { addresses } from './addresses'
-import { chainIdToNetworkName, validateAndParseAddress } from './utils'
+import { MotifList, MotifMultipleListing } from './MotifListing'
+import { MotifConfig } from './types'
 
-const landListingAddresses: { [key: string]: string } = {
-  mainnet: mainnetAddresses.landListing,
-  ropsten: ropstenAddresses.landListing,
-  motif: motifAddresses.landListing,
-  polygon: polygonAddresses.landListing,
-  binance: binanceAddresses.landListing,
-  motifTestnet: motifTestnetAddresses.landListing,
-}
-
-export interface LandList {
-  approved: boolean
-  amount: BigNumber
-  startsAt: BigNumber
-  duration: BigNumber
-  firstBidTime: BigNumber
-  listPrice: BigNumber
-  listType: number
-  intermediaryFeePercentage: number
-  tokenOwner: string
-  bidder: string
-  intermediary: string
-  listCurrency: string
-}
-
-export class LandListing {
-  public readonly chainId: number
-  public readonly readOnly: boolean
-  public readonly signerOrProvider: Signer | Provider
-  public readonly landListing: LandListingContract
-  public landAddress: string
+export type LandList = MotifList
 
+export class LandListing extends MotifMultipleListing<LandListingContract> {
   constructor(
     signerOrProvider: Signer | Provider,
     chainId: number,
-    landAddress?: string
+    landAddress?: string,
+    landListingAddress?: string,
+    config?: MotifConfig
   ) {
-    this.chainId = chainId
-    this.readOnly = !Signer.isSigner(signerOrProvider)
-    this.signerOrProvider = signerOrProvider
-    const network = chainIdToNetworkName(chainId)
-    const address = landListingAddresses[network]
-    this.landListing = LandListing__factory.connect(address, signerOrProvider)
-
-    if (landAddress) {
-      const parsedLandAddress = validateAndParseAddress(landAddress)
-      this.landAddress = parsedLandAddress
-    } else {
-      this.landAddress = addresses[network].land
-    }
-  }
-
-  public async fetchListing(listingId: BigNumberish): Promise<LandList> {
-    return this.landListing.listings(listingId)
-  }
-
-  public async fetchListingFromTransactionReceipt(
-    receipt: TransactionReceipt
-  ): Promise<LandList | null> {
-    for (const log of receipt.logs) {
-      const description = this.landListing.interface.parseLog(log)
-
-      if (description.args.listingId && log.address === this.landListing.address) {
-        return this.fetchListing(description.args.listingId)
-      }
-    }
-
-    return null
-  }
-
-  public async createListing(
-    tokenId: BigNumberish,
-    startsAt: BigNumberish,
-    duration: BigNumberish,
-    listPrice: BigNumberish,
-    listType: number,
-    intermediary: string,
-    intermediaryFeePercentages: number,
-    listCurrency: string,
-    tokenAddress: string = this.landAddress
-  ) {
-    return this.landListing.createListing(
-      tokenId,
-      tokenAddress,
-      startsAt,
-      duration,
-      listPrice,
-      listType,
-      intermediary,
-      intermediaryFeePercentages,
-      listCurrency
+    super(
+      signerOrProvider,
+      chainId,
+      { key: 'land', listingFactory: LandListing__factory },
+      landAddress,
+      landListingAddress,
+      config
     )
   }
 
-  public async setListingApproval(listingId: BigNumberish, approved: boolean) {
-    return this.landListing.setListingApproval(listingId, approved)
-  }
-
-  public async setListingDropApproval(
-    listingId: BigNumberish,
-    approved: boolean,
-    startsAt: BigNumberish
-  ) {
-    return this.landListing.setListingDropApproval(listingId, approved, startsAt)
-  }
-
-  public async setListingListPrice(listingId: BigNumberish, listPrice: BigNumberish) {
-    return this.landListing.setListingListPrice(listingId, listPrice)
-  }
-
-  public async createBid(listingId: BigNumberish, amount: BigNumberish) {
-    const { listCurrency } = await this.landListing.listings(listingId)
-    // If ETH listing, include the ETH in this transaction
-    if (listCurrency === ethers.constants.AddressZero) {
-      return this.landListing.createBid(listingId, amount, { value: amount })
-    } else {
-      return this.landListing.createBid(listingId, amount)
-    }
-  }
-
-  public async endFixedPriceListing(listingId: BigNumberish, amount: BigNumberish) {
-    const { listCurrency } = await this.landListing.listings(listingId)
-    if (listCurrency === ethers.constants.AddressZero) {
-      return this.landListing.endFixedPriceListing(listingId, amount, { value: amount })
-    } else {
-      return this.landListing.endFixedPriceListing(listingId, amount)
-    }
+  public get landListing(): LandListingContract {
+    return this.listing
   }
 
-  public async endListing(listingId: BigNumberish) {
-    return this.landListing.endListing(listingId)
+  public get landAddress(): string {
+    return this.tokenAddress
   }
 
-  public async cancelListing(listingId: BigNumberish) {
-    return this.landListing.cancelListing(listingId)
+  public set landAddress(landAddress: string) {
+    this.tokenAddress = landAddress
   }
 }
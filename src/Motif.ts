@@ -0,0 +1,239 @@
+import { Provider } from '@ethersproject/providers'
+import { Signer } from '@ethersproject/abstract-signer'
+import { MotifItem } from './MotifItem'
+import { MotifAvatar } from './MotifAvatar'
+import { MotifLand } from './MotifLand'
+import { MotifSpace } from './MotifSpace'
+import { ItemListing } from './ItemListing'
+import { AvatarListing } from './AvatarListing'
+import { LandListing } from './LandListing'
+import { SpaceListing } from './SpaceListing'
+import { TransactionManager } from './TransactionManager'
+import { resolveMotifConfig } from './config'
+import { InvalidArgumentError } from './errors'
+import { withMulticall } from './multicall'
+import { BigNumber } from '@ethersproject/bignumber'
+import { EventQueryOptions } from './events'
+import {
+  BidRemovalResult,
+  MotifConfig,
+  OpenBid,
+  OpenBids,
+  TransactionOptions,
+} from './types'
+import { chainIdToNetworkName, validateAndParseAddress } from './utils'
+
+/**
+ * Client exposing every Motif asset and listing contract of a network with one shared configuration.
+ * The network must register the address of every asset, exchange and listing contract, empty for
+ * contracts that are not deployed on it.
+ */
+export class Motif {
+  public readonly chainId: number
+  public readonly config: MotifConfig
+  public signerOrProvider: Signer | Provider
+  public readOnly: boolean
+
+  public readonly items: MotifItem
+  public readonly avatars: MotifAvatar
+  public readonly lands: MotifLand
+  public readonly spaces: MotifSpace
+  public readonly itemListings: ItemListing
+  public readonly avatarListings: AvatarListing
+  public readonly landListings: LandListing
+  public readonly spaceListings: SpaceListing
+  // tracks every transaction sent by the assets and listings
+  public readonly transactions: TransactionManager
+
+  constructor(
+    signerOrProvider: Signer | Provider,
+    chainId: number,
+    config: Partial<MotifConfig> = {}
+  ) {
+    // resolve the network once so an unsupported chainId fails before any contract is connected
+    chainIdToNetworkName(chainId)
+
+    this.chainId = chainId
+    this.config = resolveMotifConfig(config)
+    this.signerOrProvider = signerOrProvider
+    this.readOnly = !Signer.isSigner(signerOrProvider)
+
+    // the assets and listings batch their read calls, transactions are sent as usual
+    const contractSignerOrProvider = this.batched(signerOrProvider)
+    this.items = new MotifItem(contractSignerOrProvider, chainId, null, null, this.config)
+    this.avatars = new MotifAvatar(
+      contractSignerOrProvider,
+      chainId,
+      null,
+      null,
+      this.config
+    )
+    this.lands = new MotifLand(
+      contractSignerOrProvider,
+      chainId,
+      null,
+      null,
+      null,
+      null,
+      this.config
+    )
+    this.spaces = new MotifSpace(
+      contractSignerOrProvider,
+      chainId,
+      null,
+      null,
+      this.config
+    )
+    this.itemListings = new ItemListing(
+      contractSignerOrProvider,
+      chainId,
+      null,
+      null,
+      this.config
+    )
+    this.avatarListings = new AvatarListing(
+      contractSignerOrProvider,
+      chainId,
+      null,
+      null,
+      this.config
+    )
+    this.landListings = new LandListing(
+      contractSignerOrProvider,
+      chainId,
+      null,
+      null,
+      this.config
+    )
+    this.spaceListings = new SpaceListing(
+      contractSignerOrProvider,
+      chainId,
+      null,
+      null,
+      this.config
+    )
+
+    this.transactions = new TransactionManager(signerOrProvider, {}, this.config)
+    this.members().forEach((member) => {
+      member.transactionManager = this.transactions
+      member.allowances.transactionManager = this.transactions
+    })
+  }
+
+  /**
+   * Creates a Motif client for the network the signer or provider is connected to
+   *
+   * @param signerOrProvider
+   * @param config
+   */
+  public static async create(
+    signerOrProvider: Signer | Provider,
+    config: Partial<MotifConfig> = {}
+  ): Promise<Motif> {
+    const chainId = await detectChainId(signerOrProvider)
+    const motif = new Motif(signerOrProvider, chainId, config)
+    motif.config.logger.info(`Motif: connected to chainId ${chainId}`)
+    return motif
+  }
+
+  /**
+   * Reconnects every asset and listing with a new signer or provider, e.g. to switch a readOnly
+   * client to write mode. The new signer or provider must be connected to the same network.
+   *
+   * @param signerOrProvider
+   */
+  public connect(signerOrProvider: Signer | Provider): this {
+    this.signerOrProvider = signerOrProvider
+    this.readOnly = !Signer.isSigner(signerOrProvider)
+
+    const contractSignerOrProvider = this.batched(signerOrProvider)
+    this.members().forEach((member) => member.connect(contractSignerOrProvider))
+    this.transactions.connect(signerOrProvider)
+    return this
+  }
+
+  /**
+   * Fetches the bids of a bidder that are still open on the item, avatar, land and space exchanges,
+   * with the total amount of each currency they lock
+   *
+   * @param bidder
+   * @param options
+   */
+  public async fetchOpenBids(
+    bidder: string,
+    options: EventQueryOptions = {}
+  ): Promise<OpenBids> {
+    const bidsByAsset = await Promise.all(
+      this.assets().map((asset) => asset.fetchOpenBids(bidder, options))
+    )
+    const bids = bidsByAsset.reduce((all, assetBids) => all.concat(assetBids), [])
+
+    const lockedAmounts: { [currency: string]: BigNumber } = {}
+    bids.forEach(({ bid }) => {
+      const currency = validateAndParseAddress(bid.currency)
+      lockedAmounts[currency] = (lockedAmounts[currency] ?? BigNumber.from(0)).add(
+        bid.amount
+      )
+    })
+    return { bids, lockedAmounts }
+  }
+
+  /**
+   * Removes the specified bids of the signer, e.g. a selection of `fetchOpenBids`, one transaction
+   * per token. Failed removals are reported in the results instead of stopping the others.
+   *
+   * @param bids
+   * @param options
+   */
+  public async removeBids(
+    bids: Array<Pick<OpenBid, 'asset' | 'tokenId'>>,
+    options: TransactionOptions = {}
+  ): Promise<Array<BidRemovalResult>> {
+    const results: Array<BidRemovalResult> = []
+    for (const { asset, tokenId } of bids) {
+      const member = this.assets().find((candidate) => candidate.assetKey == asset)
+      if (!member) {
+        results.push({
+          asset,
+          tokenId: BigNumber.from(tokenId),
+          error: new InvalidArgumentError(`removeBids: unknown asset ${asset}`),
+        })
+        continue
+      }
+      results.push(...(await member.removeBids([tokenId], options)))
+    }
+    return results
+  }
+
+  private batched(signerOrProvider: Signer | Provider): Signer | Provider {
+    return this.config.multicall
+      ? withMulticall(signerOrProvider, this.chainId, this.config.multicall, this.config)
+      : signerOrProvider
+  }
+
+  private assets() {
+    return [this.items, this.avatars, this.lands, this.spaces]
+  }
+
+  private members() {
+    return [
+      this.items,
+      this.avatars,
+      this.lands,
+      this.spaces,
+      this.itemListings,
+      this.avatarListings,
+      this.landListings,
+      this.spaceListings,
+    ]
+  }
+}
+
+async function detectChainId(signerOrProvider: Signer | Provider): Promise<number> {
+  if (Signer.isSigner(signerOrProvider)) {
+    return signerOrProvider.getChainId()
+  }
+
+  const network = await signerOrProvider.getNetwork()
+  return network.chainId
+}
@@ -0,0 +1,1731 @@
+import {
+  Ask,
+  Bid,
+  BidBook,
+  BidBookEntry,
+  BidNormalizer,
+  BidRemovalResult,
+  BidShares,
+  BidUnwrapResult,
+  EIP712Domain,
+  EIP712Signature,
+  EnumeratedToken,
+  ItemData,
+  ListingPreflight,
+  ListingPreflightOptions,
+  MintVoucher,
+  MintResult,
+  MintVoucherKind,
+  MotifConfig,
+  OpenBid,
+  PaymentOptions,
+  Provenance,
+  TokenIteratorOptions,
+  TransactionOptions,
+} from './types'
+import { Decimal } from './Decimal'
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber'
+import { Contract, ContractTransaction, PayableOverrides } from '@ethersproject/contracts'
+import { AddressZero } from '@ethersproject/constants'
+import { Provider, TransactionReceipt } from '@ethersproject/providers'
+import { Signer } from '@ethersproject/abstract-signer'
+import { defaultMotifConfig } from './config'
+import {
+  InvalidArgumentError,
+  MotifError,
+  ReadOnlyError,
+  toContractError,
+  VerificationError,
+} from './errors'
+import { TransactionManager } from './TransactionManager'
+import { AllowanceManager } from './allowances'
+import { ReadThroughCache } from './cache'
+import {
+  ASSET_EVENT_NAMES,
+  AssetEvent,
+  AssetEvents,
+  BidCreatedEvent,
+  BidFinalizedEvent,
+  BidRemovedEvent,
+  compareEventLocations,
+  EventFilter,
+  EventListener,
+  EventQueryOptions,
+  EXCHANGE_EVENT_NAMES,
+  queryEvents,
+  subscribeToEvent,
+  Timestamped,
+} from './events'
+import { mergeGasPolicies, populateTransactionOverrides } from './gas'
+import { findNetworkConfig, getNetworkAddress } from './networks'
+import { buildProvenanceEvents, ProvenanceOptions } from './provenance'
+import {
+  fetchCurrencyDecimals,
+  mapWithConcurrency,
+  normalizeCurrencyAmount,
+  parseReceiptLogs,
+  recoverSignatureFromPermit,
+  signMintWithSigMessage,
+  signPermitMessage,
+  validateAndParseAddress,
+  validateBidShares,
+  validateURI,
+} from './utils'
+import { isMintVoucherExpired, isMintVoucherVerified } from './vouchers'
+
+/**
+ * A typechain factory able to connect a contract instance at an address
+ */
+export type AssetContractFactory<T extends Contract> = {
+  connect(address: string, signerOrProvider: Signer | Provider): T
+}
+
+export type BidBookOptions = EventQueryOptions & {
+  // defaults to scaling the amounts to 18 decimals, pass one converting to a common currency to
+  // compare bids in currencies of different value
+  normalize?: BidNormalizer
+}
+
+export const defaultTokenIteratorOptions: TokenIteratorOptions = {
+  pageSize: 50,
+  concurrency: 10,
+  hydrate: false,
+  startIndex: 0,
+}
+
+// cached fields that change after mint, burning a token clears its creator
+const MUTABLE_FIELDS = [
+  'contentURI',
+  'metadataURI',
+  'owner',
+  'creator',
+  'ask',
+  'bidShares',
+]
+
+/**
+ * Describes the asset contracts a MotifAsset subclass is built on
+ */
+export type MotifAssetConfig<
+  TData,
+  TToken extends Contract,
+  TExchange extends Contract
+> = {
+  // key of the asset in the address book, e.g. `item` for `item` and `itemExchange`
+  key: string
+  tokenFactory: AssetContractFactory<TToken>
+  exchangeFactory: AssetContractFactory<TExchange>
+  isDataVerified: (data: TData, timeout: number) => Promise<boolean>
+  // set for assets that support mint vouchers
+  voucherKind?: MintVoucherKind
+}
+
+/**
+ * MotifAsset holds the read, write and ERC-721 logic shared by the Motif Item, Avatar, Land and
+ * Space Contracts and their exchanges, parameterized by the asset data type and contract factories
+ */
+export abstract class MotifAsset<
+  TData extends ItemData,
+  TToken extends Contract,
+  TExchange extends Contract
+> {
+  public chainId: number
+  public tokenAddress: string
+  public exchangeAddress: string
+  public signerOrProvider: Signer | Provider
+  public token: TToken
+  public exchange: TExchange
+  public readOnly: boolean
+  public readonly motifConfig: MotifConfig
+  // tracks every transaction sent by the write methods when set
+  public transactionManager?: TransactionManager
+  // caches the fields of tokens when the configuration enables caching
+  public readonly cache?: ReadThroughCache
+  // checks and approves the ERC-20 payments of the signer
+  public readonly allowances: AllowanceManager
+
+  protected readonly config: MotifAssetConfig<TData, TToken, TExchange>
+
+  constructor(
+    signerOrProvider: Signer | Provider,
+    chainId: number,
+    config: MotifAssetConfig<TData, TToken, TExchange>,
+    tokenAddress?: string,
+    exchangeAddress?: string,
+    motifConfig: MotifConfig = defaultMotifConfig
+  ) {
+    const key = config.key
+    if (!tokenAddress != !exchangeAddress) {
+      throw new InvalidArgumentError(
+        `Motif Constructor: ${key}Address and ${key}ExchangeAddress must both be non-null or both be null`
+      )
+    }
+
+    if (Signer.isSigner(signerOrProvider)) {
+      this.readOnly = false
+    } else {
+      this.readOnly = true
+    }
+
+    this.signerOrProvider = signerOrProvider
+    this.chainId = chainId
+    this.config = config
+    this.motifConfig = motifConfig
+
+    if (tokenAddress && exchangeAddress) {
+      this.tokenAddress = validateAndParseAddress(tokenAddress)
+      this.exchangeAddress = validateAndParseAddress(exchangeAddress)
+    } else {
+      this.tokenAddress = getNetworkAddress(chainId, key)
+      this.exchangeAddress = getNetworkAddress(chainId, `${key}Exchange`)
+    }
+
+    this.token = config.tokenFactory.connect(this.tokenAddress, signerOrProvider)
+    this.exchange = config.exchangeFactory.connect(this.exchangeAddress, signerOrProvider)
+    this.allowances = new AllowanceManager(signerOrProvider, chainId, motifConfig)
+
+    if (motifConfig.cache) {
+      this.cache = new ReadThroughCache(
+        motifConfig.cache,
+        `${chainId}:${this.tokenAddress}`
+      )
+    }
+  }
+
+  /**
+   * Reconnects the asset contracts with a new signer or provider, switching between readOnly and
+   * write mode while keeping the resolved addresses and configuration
+   * @param signerOrProvider
+   */
+  public connect(signerOrProvider: Signer | Provider): this {
+    this.signerOrProvider = signerOrProvider
+    this.readOnly = !Signer.isSigner(signerOrProvider)
+    this.token = this.token.connect(signerOrProvider) as TToken
+    this.exchange = this.exchange.connect(signerOrProvider) as TExchange
+    this.allowances.connect(signerOrProvider)
+    return this
+  }
+
+  /**
+   * Key of the asset in the address book, e.g. `item`
+   */
+  public get assetKey(): string {
+    return this.config.key
+  }
+
+  /*********************
+   * Motif View Methods
+   *********************
+   */
+
+  /**
+   * Fetches the content hash for the specified token on the asset contract
+   * @param tokenId
+   */
+  public async fetchContentHash(tokenId: BigNumberish): Promise<string> {
+    return this.cachedRead('contentHash', tokenId, false, () =>
+      this.token.tokenContentHashes(tokenId)
+    )
+  }
+
+  /**
+   * Fetches the metadata hash for the specified token on the asset contract
+   * @param tokenId
+   */
+  public async fetchMetadataHash(tokenId: BigNumberish): Promise<string> {
+    return this.cachedRead('metadataHash', tokenId, false, () =>
+      this.token.tokenMetadataHashes(tokenId)
+    )
+  }
+
+  /**
+   * Fetches the content uri for the specified token on the asset contract
+   * @param tokenId
+   */
+  public async fetchContentURI(tokenId: BigNumberish): Promise<string> {
+    return this.cachedRead('contentURI', tokenId, true, () =>
+      this.token.tokenURI(tokenId)
+    )
+  }
+
+  /**
+   * Fetches the metadata uri for the specified token on the asset contract
+   * @param tokenId
+   */
+  public async fetchMetadataURI(tokenId: BigNumberish): Promise<string> {
+    return this.cachedRead('metadataURI', tokenId, true, () =>
+      this.token.tokenMetadataURI(tokenId)
+    )
+  }
+
+  /**
+   * Fetches the creator for the specified token on the asset contract
+   * @param tokenId
+   */
+  public async fetchCreator(tokenId: BigNumberish): Promise<string> {
+    return this.cachedRead('creator', tokenId, true, () =>
+      this.token.tokenCreators(tokenId)
+    )
+  }
+
+  /**
+   * Fetches the current bid shares for the specified token on the exchange contract
+   * @param tokenId
+   */
+  public async fetchCurrentBidShares(tokenId: BigNumberish): Promise<BidShares> {
+    return this.cachedRead('bidShares', tokenId, true, () =>
+      this.exchange.bidSharesForToken(tokenId)
+    )
+  }
+
+  /**
+   * Fetches the current ask for the specified token on the exchange contract
+   * @param tokenId
+   */
+  public async fetchCurrentAsk(tokenId: BigNumberish): Promise<Ask> {
+    return this.cachedRead('ask', tokenId, true, () =>
+      this.exchange.currentAskForToken(tokenId)
+    )
+  }
+
+  /**
+   * Fetches the current bid for the specified bidder for the specified token on the exchange contract
+   * @param tokenId
+   * @param bidder
+   */
+  public async fetchCurrentBidForBidder(
+    tokenId: BigNumberish,
+    bidder: string
+  ): Promise<Bid> {
+    return this.exchange.bidForTokenBidder(tokenId, bidder)
+  }
+
+  /**
+   * Fetches the permit nonce on the specified token id for the owner address
+   * @param address
+   * @param tokenId
+   */
+  public async fetchPermitNonce(
+    address: string,
+    tokenId: BigNumberish
+  ): Promise<BigNumber> {
+    return this.token.permitNonces(address, tokenId)
+  }
+
+  /**
+   * Fetches the current mintWithSig nonce for the specified address
+   * @param address
+   */
+  public async fetchMintWithSigNonce(address: string): Promise<BigNumber> {
+    return this.token.mintWithSigNonces(address)
+  }
+
+  /**
+   * Fetches the data the specified token was minted with, as currently stored on the asset contract
+   * @param tokenId
+   */
+  public abstract fetchData(tokenId: BigNumberish): Promise<TData>
+
+  /*********************
+   * Motif Write Methods
+   *********************
+   */
+
+  /**
+   * Updates the content uri for the specified token on the asset contract
+   * @param tokenId
+   * @param tokenURI
+   * @param options
+   */
+  public async updateContentURI(
+    tokenId: BigNumberish,
+    tokenURI: string,
+    options: TransactionOptions = {}
+  ): Promise<ContractTransaction> {
+    try {
+      this.ensureNotReadOnly()
+      validateURI(tokenURI, this.motifConfig.uriPolicy.protocols)
+    } catch (err) {
+      return Promise.reject(err)
+    }
+
+    return this.sendTransaction(
+      this.token,
+      'updateTokenURI',
+      [tokenId, tokenURI],
+      options,
+      110
+    )
+  }
+
+  /**
+   * Updates the metadata uri for the specified token on the asset contract
+   * @param tokenId
+   * @param metadataURI
+   * @param options
+   */
+  public async updateMetadataURI(
+    tokenId: BigNumberish,
+    metadataURI: string,
+    options: TransactionOptions = {}
+  ): Promise<ContractTransaction> {
+    try {
+      this.ensureNotReadOnly()
+      validateURI(metadataURI, this.motifConfig.uriPolicy.protocols)
+    } catch (err) {
+      return Promise.reject(err)
+    }
+
+    return this.sendTransaction(
+      this.token,
+      'updateTokenMetadataURI',
+      [tokenId, metadataURI],
+      options,
+      110
+    )
+  }
+
+  /**
+   * Mints a new token on the asset contract
+   * @param data
+   * @param bidShares
+   * @param options
+   */
+  public async mint(
+    data: TData,
+    bidShares: BidShares,
+    options: TransactionOptions = {}
+  ): Promise<ContractTransaction> {
+    try {
+      this.ensureNotReadOnly()
+      this.validateMintArguments(data, bidShares)
+    } catch (err) {
+      return Promise.reject(err)
+    }
+
+    return this.sendTransaction(this.token, 'mint', [data, bidShares], options, 110)
+  }
+
+  /**
+   * Mints a new token on the asset contract and waits for the transaction to be mined, returning the
+   * minted token read back from the contract
+   * @param data
+   * @param bidShares
+   * @param options
+   * @param confirmations
+   */
+  public async mintAndWait(
+    data: TData,
+    bidShares: BidShares,
+    options: TransactionOptions = {},
+    confirmations: number = 1
+  ): Promise<MintResult<TData>> {
+    const tx = await this.mint(data, bidShares, options)
+    const [result] = await this.waitForMintResults('mintAndWait', tx, confirmations)
+    return result
+  }
+
+  /**
+   * Mints multiple new tokens in a single transaction on the asset contract
+   * @param data
+   * @param bidShares
+   * @param options
+   */
+  public async mintMultiple(
+    data: Array<TData>,
+    bidShares: Array<BidShares>,
+    options: TransactionOptions = {}
+  ): Promise<ContractTransaction> {
+    try {
+      this.ensureNotReadOnly()
+      if (data.length != bidShares.length) {
+        throw new InvalidArgumentError(
+          `mintMultiple: received ${data.length} data entries but ${bidShares.length} bid shares`
+        )
+      }
+      data.forEach((entry, index) => this.validateMintArguments(entry, bidShares[index]))
+    } catch (err) {
+      return Promise.reject(err)
+    }
+
+    return this.sendTransaction(
+      this.token,
+      'mintMultiple',
+      [data, bidShares],
+      options,
+      105
+    )
+  }
+
+  /**
+   * Mints multiple new tokens in a single transaction on the asset contract and waits for the
+   * transaction to be mined, returning the minted tokens in mint order
+   * @param data
+   * @param bidShares
+   * @param options
+   * @param confirmations
+   */
+  public async mintMultipleAndWait(
+    data: Array<TData>,
+    bidShares: Array<BidShares>,
+    options: TransactionOptions = {},
+    confirmations: number = 1
+  ): Promise<Array<MintResult<TData>>> {
+    const tx = await this.mintMultiple(data, bidShares, options)
+    return this.waitForMintResults('mintMultipleAndWait', tx, confirmations)
+  }
+
+  /**
+   * Mints a new token for the creator of the specified EIP-712 signature on the asset contract
+   * @param creator
+   * @param data
+   * @param bidShares
+   * @param sig
+   * @param options
+   */
+  public async mintWithSig(
+    creator: string,
+    data: TData,
+    bidShares: BidShares,
+    sig: EIP712Signature,
+    options: TransactionOptions = {}
+  ): Promise<ContractTransaction> {
+    try {
+      this.ensureNotReadOnly()
+      this.validateMintArguments(data, bidShares)
+    } catch (err) {
+      return Promise.reject(err)
+    }
+
+    return this.sendTransaction(
+      this.token,
+      'mintWithSig',
+      [creator, data, bidShares, sig],
+      options
+    )
+  }
+
+  /**
+   * Signs a voucher with the connected signer as creator, allowing anyone to mint the token through mintWithSig
+   * @param data
+   * @param bidShares
+   * @param deadline
+   */
+  public async signMintVoucher(
+    data: TData,
+    bidShares: BidShares,
+    deadline: BigNumberish
+  ): Promise<MintVoucher<TData>> {
+    try {
+      this.ensureNotReadOnly()
+      this.ensureVouchersSupported()
+      this.validateMintArguments(data, bidShares)
+    } catch (err) {
+      return Promise.reject(err)
+    }
+
+    const signer = this.signerOrProvider as Signer
+    const creator = await signer.getAddress()
+    const nonce = await this.fetchMintWithSigNonce(creator)
+    const domain = this.eip712Domain()
+    const sig = await signMintWithSigMessage(
+      signer,
+      data.contentHash,
+      data.metadataHash,
+      BigNumber.from(bidShares.creator.value),
+      nonce,
+      deadline,
+      domain
+    )
+
+    return {
+      kind: this.config.voucherKind,
+      creator: creator,
+      data: data,
+      bidShares: bidShares,
+      nonce: nonce,
+      domain: domain,
+      sig: sig,
+    }
+  }
+
+  /**
+   * Mints the token of a voucher signed by its creator through mintWithSig, after checking the voucher
+   * signature, deadline and the creator's current mintWithSig nonce
+   * @param voucher
+   * @param options
+   */
+  public async redeemMintVoucher(
+    voucher: MintVoucher<TData>,
+    options: TransactionOptions = {}
+  ): Promise<ContractTransaction> {
+    try {
+      this.ensureNotReadOnly()
+      this.ensureVouchersSupported()
+      if (voucher.kind != this.config.voucherKind) {
+        throw new InvalidArgumentError(
+          `redeemMintVoucher: cannot redeem a ${voucher.kind} voucher as ${this.config.voucherKind}`
+        )
+      }
+      if (
+        validateAndParseAddress(voucher.domain.verifyingContract) != this.tokenAddress
+      ) {
+        throw new VerificationError(
+          `redeemMintVoucher: voucher was signed for ${voucher.domain.verifyingContract}, not ${this.tokenAddress}`
+        )
+      }
+      if (isMintVoucherExpired(voucher)) {
+        throw new VerificationError(
+          `redeemMintVoucher: voucher deadline ${voucher.sig.deadline.toString()} has passed`
+        )
+      }
+    } catch (err) {
+      return Promise.reject(err)
+    }
+
+    const [isVerified, nonce] = await Promise.all([
+      isMintVoucherVerified(voucher),
+      this.fetchMintWithSigNonce(voucher.creator),
+    ])
+    if (!isVerified) {
+      return Promise.reject(
+        new VerificationError('redeemMintVoucher: voucher was not signed by its creator')
+      )
+    }
+    if (!nonce.eq(voucher.nonce)) {
+      return Promise.reject(
+        new VerificationError(
+          `redeemMintVoucher: voucher nonce ${voucher.nonce.toString()} does not match the current mintWithSig nonce ${nonce.toString()} of the creator`
+        )
+      )
+    }
+
+    return this.mintWithSig(
+      voucher.creator,
+      voucher.data,
+      voucher.bidShares,
+      voucher.sig,
+      options
+    )
+  }
+
+  /**
+   * Sets an ask on the specified token on the asset contract
+   * @param tokenId
+   * @param ask
+   * @param options
+   */
+  public async setAsk(
+    tokenId: BigNumberish,
+    ask: Ask,
+    options: TransactionOptions = {}
+  ): Promise<ContractTransaction> {
+    try {
+      this.ensureNotReadOnly()
+    } catch (err) {
+      return Promise.reject(err)
+    }
+
+    return this.sendTransaction(this.token, 'setAsk', [tokenId, ask], options, 110)
+  }
+
+  /**
+   * Sets a bid on the specified token on the asset contract, after checking the balance of the
+   * signer and the allowance of the exchange in the bid currency
+   * @param tokenId
+   * @param bid
+   * @param options
+   */
+  public async setBid(
+    tokenId: BigNumberish,
+    bid: Bid,
+    options: PaymentOptions = {}
+  ): Promise<ContractTransaction> {
+    try {
+      this.ensureNotReadOnly()
+    } catch (err) {
+      return Promise.reject(err)
+    }
+
+    if (options.checkFunds ?? true) {
+      await this.allowances.ensure(
+        'setBid',
+        bid.currency,
+        this.exchange.address,
+        bid.amount,
+        options
+      )
+    }
+    return this.sendTransaction(this.token, 'setBid', [tokenId, bid], options, 110)
+  }
+
+  /**
+   * Removes the ask on the specified token on the asset contract
+   * @param tokenId
+   * @param options
+   */
+  public async removeAsk(
+    tokenId: BigNumberish,
+    options: TransactionOptions = {}
+  ): Promise<ContractTransaction> {
+    try {
+      this.ensureNotReadOnly()
+    } catch (err) {
+      return Promise.reject(err)
+    }
+
+    return this.sendTransaction(this.token, 'removeAsk', [tokenId], options, 110)
+  }
+
+  /**
+   * Removes the bid for the msg.sender on the specified token on the asset contract
+   * @param tokenId
+   * @param options
+   */
+  public async removeBid(
+    tokenId: BigNumberish,
+    options: TransactionOptions = {}
+  ): Promise<ContractTransaction> {
+    try {
+      this.ensureNotReadOnly()
+    } catch (err) {
+      return Promise.reject(err)
+    }
+
+    return this.sendTransaction(this.token, 'removeBid', [tokenId], options, 110)
+  }
+
+  /**
+   * Removes the bid for the msg.sender on the specified token and, when the bid was in the WETH of
+   * the network, unwraps the refund into the native currency once the removal is mined
+   * @param tokenId
+   * @param options
+   */
+  public async removeBidAndUnwrap(
+    tokenId: BigNumberish,
+    options: TransactionOptions & { confirmations?: number } = {}
+  ): Promise<BidUnwrapResult> {
+    try {
+      this.ensureNotReadOnly()
+    } catch (err) {
+      return Promise.reject(err)
+    }
+
+    const allowances = this.allowances
+    const bidder = await (this.signerOrProvider as Signer).getAddress()
+    const bid = await this.fetchCurrentBidForBidder(tokenId, bidder)
+    const removal = await this.removeBid(tokenId, options)
+    if (
+      !allowances.wethAddress ||
+      bid.currency.toLowerCase() != allowances.wethAddress.toLowerCase()
+    ) {
+      return { removal }
+    }
+
+    await removal.wait(options.confirmations ?? 1)
+    const unwrapping = await allowances.unwrap(bid.amount, options.confirmations)
+    return { removal, unwrapping }
+  }
+
+  /**
+   * Removes the bids of the msg.sender on the specified tokens, one transaction per token, and reports
+   * the transaction or error of each token instead of stopping at the first failure
+   * @param tokenIds
+   * @param options
+   */
+  public async removeBids(
+    tokenIds: Array<BigNumberish>,
+    options: TransactionOptions = {}
+  ): Promise<Array<BidRemovalResult>> {
+    try {
+      this.ensureNotReadOnly()
+    } catch (err) {
+      return Promise.reject(err)
+    }
+
+    const results: Array<BidRemovalResult> = []
+    // one at a time so that each transaction is sent with the next nonce of the signer
+    for (const tokenId of tokenIds) {
+      const result = { asset: this.assetKey, tokenId: BigNumber.from(tokenId) }
+      try {
+        results.push({ ...result, transaction: await this.removeBid(tokenId, options) })
+      } catch (err) {
+        results.push({ ...result, error: err })
+      }
+    }
+    return results
+  }
+
+  /**
+   * Accepts the specified bid on the specified token on the asset contract
+   * @param tokenId
+   * @param bid
+   * @param options
+   */
+  public async acceptBid(
+    tokenId: BigNumberish,
+    bid: Bid,
+    options: TransactionOptions = {}
+  ): Promise<ContractTransaction> {
+    try {
+      this.ensureNotReadOnly()
+    } catch (err) {
+      return Promise.reject(err)
+    }
+
+    return this.sendTransaction(this.token, 'acceptBid', [tokenId, bid], options, 110)
+  }
+
+  /**
+   * Grants the spender approval for the specified token using meta transactions as outlined in EIP-712
+   * @param spender
+   * @param tokenId
+   * @param sig
+   * @param options
+   */
+  public async permit(
+    spender: string,
+    tokenId: BigNumberish,
+    sig: EIP712Signature,
+    options: TransactionOptions = {}
+  ): Promise<ContractTransaction> {
+    try {
+      this.ensureNotReadOnly()
+    } catch (err) {
+      return Promise.reject(err)
+    }
+
+    return this.sendTransaction(this.token, 'permit', [spender, tokenId, sig], options)
+  }
+
+  /**
+   * Revokes the approval of an approved account for the specified token on the asset contract
+   * @param tokenId
+   * @param options
+   */
+  public async revokeApproval(
+    tokenId: BigNumberish,
+    options: TransactionOptions = {}
+  ): Promise<ContractTransaction> {
+    try {
+      this.ensureNotReadOnly()
+    } catch (err) {
+      return Promise.reject(err)
+    }
+
+    return this.sendTransaction(this.token, 'revokeApproval', [tokenId], options)
+  }
+
+  /**
+   * Burns the specified token on the asset contract
+   * @param tokenId
+   * @param options
+   */
+  public async burn(
+    tokenId: BigNumberish,
+    options: TransactionOptions = {}
+  ): Promise<ContractTransaction> {
+    try {
+      this.ensureNotReadOnly()
+    } catch (err) {
+      return Promise.reject(err)
+    }
+
+    return this.sendTransaction(this.token, 'burn', [tokenId], options)
+  }
+
+  /***********************
+   * ERC-721 View Methods
+   ***********************
+   */
+
+  /**
+   * Fetches the total balance of tokens owned by the specified owner on the asset contract
+   * @param owner
+   */
+  public async fetchBalanceOf(owner: string): Promise<BigNumber> {
+    return this.token.balanceOf(owner)
+  }
+
+  /**
+   * Fetches the owner of the specified token on the asset contract
+   * @param tokenId
+   */
+  public async fetchOwnerOf(tokenId: BigNumberish): Promise<string> {
+    return this.cachedRead('owner', tokenId, true, () => this.token.ownerOf(tokenId))
+  }
+
+  /**
+   * Fetches the tokenId of the specified owner by index on the asset contract
+   * @param owner
+   * @param index
+   */
+  public async fetchTokenOfOwnerByIndex(
+    owner: string,
+    index: BigNumberish
+  ): Promise<BigNumber> {
+    return this.token.tokenOfOwnerByIndex(owner, index)
+  }
+
+  /**
+   * Fetches the total amount of non-burned tokens that have been minted on the asset contract
+   */
+  public async fetchTotalSupply(): Promise<BigNumber> {
+    return this.token.totalSupply()
+  }
+
+  /**
+   * Fetches the tokenId by index on the asset contract
+   * @param index
+   */
+  public async fetchTokenByIndex(index: BigNumberish): Promise<BigNumber> {
+    return this.token.tokenByIndex(index)
+  }
+
+  /**
+   * Iterates over the tokens of an owner page by page, e.g.
+   * `for await (const token of item.tokensOfOwner(owner)) {}`.
+   * The balance is read once, tokens transferred while iterating can be skipped or repeated.
+   *
+   * @param owner
+   * @param options
+   */
+  public tokensOfOwner(
+    owner: string,
+    options: Partial<TokenIteratorOptions> = {}
+  ): AsyncGenerator<EnumeratedToken<TData>> {
+    const parsedOwner = validateAndParseAddress(owner)
+    return this.enumerateTokens(
+      'tokensOfOwner',
+      () => this.fetchBalanceOf(parsedOwner),
+      (index) => this.fetchTokenOfOwnerByIndex(parsedOwner, index),
+      options
+    )
+  }
+
+  /**
+   * Iterates over every token of the asset contract page by page.
+   * The total supply is read once, tokens minted or burned while iterating can be skipped or repeated.
+   *
+   * @param options
+   */
+  public allTokens(
+    options: Partial<TokenIteratorOptions> = {}
+  ): AsyncGenerator<EnumeratedToken<TData>> {
+    return this.enumerateTokens(
+      'allTokens',
+      () => this.fetchTotalSupply(),
+      (index) => this.fetchTokenByIndex(index),
+      options
+    )
+  }
+
+  /**
+   * Fetches the approved account for the specified token on the asset contract
+   * @param tokenId
+   */
+  public async fetchApproved(tokenId: BigNumberish): Promise<string> {
+    return this.token.getApproved(tokenId)
+  }
+
+  /**
+   * Fetches if the specified operator is approved for all tokens owned by the specified owner on the asset contract
+   * @param owner
+   * @param operator
+   */
+  public async fetchIsApprovedForAll(owner: string, operator: string): Promise<boolean> {
+    return this.token.isApprovedForAll(owner, operator)
+  }
+
+  /**
+   * Checks that an account owns a token, that the listing contract is approved to transfer it and
+   * that the listing currency exists, the conditions `createListing` reverts on. Sends the missing
+   * approval first when `approve` is set.
+   *
+   * @param tokenId
+   * @param options
+   */
+  public async preflightListing(
+    tokenId: BigNumberish,
+    options: ListingPreflightOptions = {}
+  ): Promise<ListingPreflight> {
+    const listingAddress = validateAndParseAddress(
+      options.listingAddress ??
+        getNetworkAddress(this.chainId, `${this.config.key}Listing`)
+    )
+
+    let account: string
+    if (options.account) {
+      account = validateAndParseAddress(options.account)
+    } else if (Signer.isSigner(this.signerOrProvider)) {
+      account = await this.signerOrProvider.getAddress()
+    } else {
+      throw new InvalidArgumentError(
+        'preflightListing: an account is required for a readOnly Motif instance'
+      )
+    }
+
+    const [owner, approved, isApprovedForAll, isCurrencyValid] = await Promise.all([
+      this.fetchOwnerOf(tokenId),
+      this.fetchApproved(tokenId),
+      this.fetchIsApprovedForAll(account, listingAddress),
+      options.currency == null ? true : this.isCurrencyContract(options.currency),
+    ])
+    const isOwner = owner.toLowerCase() == account.toLowerCase()
+    let isApproved =
+      approved.toLowerCase() == listingAddress.toLowerCase() || isApprovedForAll
+
+    let approval: ContractTransaction | undefined
+    if (isOwner && !isApproved && options.approve) {
+      approval =
+        options.approve == 'all'
+          ? await this.setApprovalForAll(listingAddress, true)
+          : await this.approve(listingAddress, tokenId)
+      await approval.wait(options.confirmations ?? 1)
+      isApproved = true
+    }
+
+    const problems: Array<string> = []
+    if (!isOwner) {
+      problems.push(`${account} does not own token ${tokenId} owned by ${owner}`)
+    }
+    if (!isApproved) {
+      problems.push(`${listingAddress} is not approved to transfer token ${tokenId}`)
+    }
+    if (!isCurrencyValid) {
+      problems.push(`${options.currency} is not a currency contract`)
+    }
+
+    return {
+      tokenId: BigNumber.from(tokenId),
+      owner,
+      account,
+      listingAddress,
+      isOwner,
+      isApproved,
+      isCurrencyValid,
+      approval,
+      problems,
+    }
+  }
+
+  /***********************
+   * ERC-721 Write Methods
+   ***********************
+   */
+
+  /**
+   * Grants approval to the specified address for the specified token on the asset contract
+   * @param to
+   * @param tokenId
+   * @param options
+   */
+  public async approve(
+    to: string,
+    tokenId: BigNumberish,
+    options: TransactionOptions = {}
+  ): Promise<ContractTransaction> {
+    try {
+      this.ensureNotReadOnly()
+    } catch (err) {
+      return Promise.reject(err)
+    }
+
+    return this.sendTransaction(this.token, 'approve', [to, tokenId], options)
+  }
+
+  /**
+   * Grants approval for all tokens owned by msg.sender on the asset contract
+   * @param operator
+   * @param approved
+   * @param options
+   */
+  public async setApprovalForAll(
+    operator: string,
+    approved: boolean,
+    options: TransactionOptions = {}
+  ): Promise<ContractTransaction> {
+    try {
+      this.ensureNotReadOnly()
+    } catch (err) {
+      return Promise.reject(err)
+    }
+
+    return this.sendTransaction(
+      this.token,
+      'setApprovalForAll',
+      [operator, approved],
+      options
+    )
+  }
+
+  /**
+   * Transfers the specified token to the specified to address on the asset contract
+   * @param from
+   * @param to
+   * @param tokenId
+   * @param options
+   */
+  public async transferFrom(
+    from: string,
+    to: string,
+    tokenId: BigNumberish,
+    options: TransactionOptions = {}
+  ): Promise<ContractTransaction> {
+    try {
+      this.ensureNotReadOnly()
+    } catch (err) {
+      return Promise.reject(err)
+    }
+
+    return this.sendTransaction(this.token, 'transferFrom', [from, to, tokenId], options)
+  }
+
+  /**
+   * Executes a SafeTransfer of the specified token to the specified address if and only if it adheres to the ERC721-Receiver Interface
+   * @param from
+   * @param to
+   * @param tokenId
+   * @param options
+   */
+  public async safeTransferFrom(
+    from: string,
+    to: string,
+    tokenId: BigNumberish,
+    options: TransactionOptions = {}
+  ): Promise<ContractTransaction> {
+    try {
+      this.ensureNotReadOnly()
+    } catch (err) {
+      return Promise.reject(err)
+    }
+
+    return this.sendTransaction(
+      this.token,
+      'safeTransferFrom',
+      [from, to, tokenId],
+      options
+    )
+  }
+
+  /****************
+   * Miscellaneous
+   * **************
+   */
+
+  /**
+   * Returns the EIP-712 Domain for the asset contract
+   */
+  public eip712Domain(): EIP712Domain {
+    const network = findNetworkConfig(this.chainId)
+    const chainId = network?.eip712ChainId ?? this.chainId
+
+    return {
+      name: 'Motif',
+      version: '1',
+      chainId: chainId,
+      verifyingContract: this.tokenAddress,
+    }
+  }
+
+  /**
+   * Signs an EIP-712 permit granting the spender approval for the specified token with the connected signer,
+   * using the signer's current permit nonce and the EIP-712 Domain of this instance
+   * @param spender
+   * @param tokenId
+   * @param deadline
+   */
+  public async signPermit(
+    spender: string,
+    tokenId: BigNumberish,
+    deadline: BigNumberish
+  ): Promise<EIP712Signature> {
+    try {
+      this.ensureNotReadOnly()
+    } catch (err) {
+      return Promise.reject(err)
+    }
+
+    const signer = this.signerOrProvider as Signer
+    const owner = await signer.getAddress()
+    const nonce = await this.fetchPermitNonce(owner, tokenId)
+    return signPermitMessage(
+      signer,
+      spender,
+      tokenId,
+      nonce,
+      deadline,
+      this.eip712Domain()
+    )
+  }
+
+  /**
+   * Recovers the address that signed the specified permit for the EIP-712 Domain of this instance
+   * @param spender
+   * @param tokenId
+   * @param nonce
+   * @param sig
+   */
+  public async recoverPermitSigner(
+    spender: string,
+    tokenId: BigNumberish,
+    nonce: BigNumberish,
+    sig: EIP712Signature
+  ): Promise<string> {
+    return recoverSignatureFromPermit(
+      spender,
+      tokenId,
+      nonce,
+      sig.deadline,
+      this.eip712Domain(),
+      sig
+    )
+  }
+
+  /**
+   * Checks to see if a Bid's amount is evenly splittable given the token's current bidShares
+   *
+   * @param tokenId
+   * @param bid
+   */
+  public async isValidBid(tokenId: BigNumberish, bid: Bid): Promise<boolean> {
+    const isAmountValid = await this.exchange.isValidBid(tokenId, bid.amount)
+    const decimal100 = Decimal.new(100)
+    const currentBidShares = await this.fetchCurrentBidShares(tokenId)
+    const isSellOnShareValid = bid.sellOnShare.value.lte(
+      decimal100.value.sub(currentBidShares.creator.value)
+    )
+
+    return isAmountValid && isSellOnShareValid
+  }
+
+  /**
+   * Checks to see if an Ask's amount is evenly splittable given the token's current bidShares
+   *
+   * @param tokenId
+   * @param ask
+   */
+  public isValidAsk(tokenId: BigNumberish, ask: Ask): Promise<boolean> {
+    return this.exchange.isValidBid(tokenId, ask.amount)
+  }
+
+  /**
+   * Checks to see if a token has verified uris that hash to their immutable hashes
+   *
+   * @param tokenId
+   * @param timeout
+   */
+  public async isVerified(
+    tokenId: BigNumberish,
+    timeout: number = this.motifConfig.timeout
+  ): Promise<boolean> {
+    try {
+      const data = await this.fetchData(tokenId)
+      return this.config.isDataVerified(data, timeout)
+    } catch (err) {
+      return Promise.reject(err)
+    }
+  }
+
+  /**
+   * Subscribes to an event of the asset or exchange contract, e.g. `Transfer` or `BidCreated`.
+   * Returns a function removing the subscription.
+   *
+   * @param name
+   * @param listener
+   * @param filter
+   */
+  public on<K extends keyof AssetEvents>(
+    name: K,
+    listener: EventListener<AssetEvents[K]>,
+    filter: EventFilter = {}
+  ): () => void {
+    const contract = EXCHANGE_EVENT_NAMES.includes(name) ? this.exchange : this.token
+    return subscribeToEvent(contract, name, listener, filter)
+  }
+
+  /**
+   * Fetches the past events of the asset or exchange contract with the specified name, e.g. the
+   * `BidCreated` events of a token
+   *
+   * @param name
+   * @param filter
+   * @param options
+   */
+  public async fetchEvents<K extends keyof AssetEvents>(
+    name: K,
+    filter: EventFilter = {},
+    options: EventQueryOptions = {}
+  ): Promise<Array<Timestamped<AssetEvents[K]>>> {
+    const contract = EXCHANGE_EVENT_NAMES.includes(name) ? this.exchange : this.token
+    return queryEvents<AssetEvents[K]>(contract, [name], filter, options)
+  }
+
+  /**
+   * Fetches every past event of the asset and exchange contracts matching the filter in chain order,
+   * e.g. the history of a token or the activity of an address
+   *
+   * @param filter
+   * @param options
+   */
+  public async fetchHistory(
+    filter: EventFilter = {},
+    options: EventQueryOptions = {}
+  ): Promise<Array<Timestamped<AssetEvent>>> {
+    const tokenEvents = ASSET_EVENT_NAMES.filter(
+      (name) => !EXCHANGE_EVENT_NAMES.includes(name)
+    )
+    const [tokenHistory, exchangeHistory] = await Promise.all([
+      queryEvents<AssetEvent>(this.token, tokenEvents, filter, options),
+      queryEvents<AssetEvent>(this.exchange, EXCHANGE_EVENT_NAMES, filter, options),
+    ])
+    return [...tokenHistory, ...exchangeHistory].sort(compareEventLocations)
+  }
+
+  /**
+   * Fetches the addresses that ever bid on a token from its BidCreated, BidRemoved and BidFinalized
+   * events, in order of their first bid
+   *
+   * @param tokenId
+   * @param options
+   */
+  public async fetchBidders(
+    tokenId: BigNumberish,
+    options: EventQueryOptions = {}
+  ): Promise<Array<string>> {
+    const events = await queryEvents<
+      BidCreatedEvent | BidRemovedEvent | BidFinalizedEvent
+    >(this.exchange, ['BidCreated', 'BidRemoved', 'BidFinalized'], { tokenId }, options)
+
+    const bidders = new Map<string, string>()
+    events.sort(compareEventLocations).forEach((event) => {
+      const bidder = validateAndParseAddress(event.bid.bidder)
+      bidders.set(bidder.toLowerCase(), bidder)
+    })
+    return Array.from(bidders.values())
+  }
+
+  /**
+   * Fetches the bids of a bidder that are still open on the exchange: the tokens are found from the
+   * BidCreated events of the bidder and each bid is read back from the exchange
+   *
+   * @param bidder
+   * @param options
+   */
+  public async fetchOpenBids(
+    bidder: string,
+    options: EventQueryOptions = {}
+  ): Promise<Array<OpenBid>> {
+    const parsedBidder = validateAndParseAddress(bidder)
+    const events = await this.fetchEvents('BidCreated', { bidder: parsedBidder }, options)
+    const tokenIds = events
+      .map((event) => event.tokenId)
+      .filter(
+        (tokenId, index, all) => all.findIndex((other) => other.eq(tokenId)) == index
+      )
+
+    const bids = await Promise.all(
+      tokenIds.map(async (tokenId) => ({
+        asset: this.assetKey,
+        tokenId,
+        bid: await this.fetchCurrentBidForBidder(tokenId, parsedBidder),
+      }))
+    )
+    // removed, replaced by the exchange and finalized bids read back empty
+    return bids.filter((openBid) => !BigNumber.from(openBid.bid.amount).isZero())
+  }
+
+  /**
+   * Fetches the current bids on a token, sorted by normalized amount, with the highest bid the owner
+   * can accept with the current bid shares
+   *
+   * @param tokenId
+   * @param options
+   */
+  public async fetchBidBook(
+    tokenId: BigNumberish,
+    options: BidBookOptions = {}
+  ): Promise<BidBook> {
+    const { normalize = this.currencyNormalizer(), ...queryOptions } = options
+    const [bidders, bidShares] = await Promise.all([
+      this.fetchBidders(tokenId, queryOptions),
+      this.fetchCurrentBidShares(tokenId),
+    ])
+
+    const currentBids = await Promise.all(
+      bidders.map((bidder) => this.fetchCurrentBidForBidder(tokenId, bidder))
+    )
+    // removed and finalized bids read back empty
+    const bids = currentBids.filter((bid) => !BigNumber.from(bid.amount).isZero())
+
+    const maxSellOnShare = Decimal.new(100).value.sub(bidShares.creator.value)
+    const entries: Array<BidBookEntry> = await Promise.all(
+      bids.map(async (bid) => {
+        const [normalizedAmount, isAmountValid] = await Promise.all([
+          normalize(bid),
+          this.exchange.isValidBid(tokenId, bid.amount),
+        ])
+        return {
+          bid,
+          normalizedAmount: BigNumber.from(normalizedAmount),
+          isValid:
+            isAmountValid && BigNumber.from(bid.sellOnShare.value).lte(maxSellOnShare),
+        }
+      })
+    )
+    entries.sort((a, b) =>
+      b.normalizedAmount.gt(a.normalizedAmount)
+        ? 1
+        : b.normalizedAmount.lt(a.normalizedAmount)
+        ? -1
+        : 0
+    )
+
+    return {
+      tokenId: BigNumber.from(tokenId),
+      bidShares,
+      bids: entries,
+      bestBid: entries.find((entry) => entry.isValid) ?? null,
+    }
+  }
+
+  /**
+   * Fetches the provenance of a token: its mint, transfers, sales and uri updates in chain order,
+   * with its creator and current owner. Sign it with `signProvenance` to export a verifiable report.
+   *
+   * @param tokenId
+   * @param options
+   */
+  public async fetchProvenance(
+    tokenId: BigNumberish,
+    options: ProvenanceOptions = {}
+  ): Promise<Provenance> {
+    const { listing, ...queryOptions } = options
+    const [history, listingEvents, creator] = await Promise.all([
+      this.fetchHistory({ tokenId }, queryOptions),
+      listing
+        ? listing.fetchEvents('ListingEnded', { tokenId }, queryOptions)
+        : Promise.resolve([]),
+      this.fetchCreator(tokenId),
+    ])
+
+    const events = buildProvenanceEvents(
+      history,
+      listingEvents.filter(
+        (event) => event.tokenContract.toLowerCase() == this.tokenAddress.toLowerCase()
+      )
+    )
+    const last = events[events.length - 1]
+    const owner = last && last.type == 'burn' ? null : await this.fetchOwnerOf(tokenId)
+    // burning clears the creator of the token, the mint still records it
+    const mint = events.find((event) => event.type == 'mint')
+
+    return {
+      chainId: this.chainId,
+      tokenAddress: this.tokenAddress,
+      tokenId: BigNumber.from(tokenId).toString(),
+      creator: creator == AddressZero && mint ? mint.to : creator,
+      owner,
+      events,
+    }
+  }
+
+  /**
+   * Removes the cached mutable fields of a token, e.g. after changing them outside of this instance
+   * @param tokenId
+   * @param fields defaults to every mutable field
+   */
+  public async invalidateCache(
+    tokenId: BigNumberish,
+    fields: Array<string> = MUTABLE_FIELDS
+  ): Promise<void> {
+    await this.cache?.invalidate(fields, BigNumber.from(tokenId).toString())
+  }
+
+  /**
+   * Subscribes to the events changing the mutable fields of tokens and removes the cached fields
+   * they change, so owners, asks and uris stay cached until they change instead of for the ttl.
+   * Returns a function removing the subscriptions.
+   */
+  public invalidateCacheOnEvents(): () => void {
+    const invalidate = (fields: Array<string>) => (event: { tokenId: BigNumber }) =>
+      this.invalidateCache(event.tokenId, fields).catch((err) =>
+        this.motifConfig.logger.warn(`invalidateCacheOnEvents: ${err.message}`)
+      )
+
+    const unsubscribes = [
+      this.on('Transfer', invalidate(['owner', 'creator'])),
+      this.on('TokenURIUpdated', invalidate(['contentURI'])),
+      this.on('TokenMetadataURIUpdated', invalidate(['metadataURI'])),
+      this.on('AskCreated', invalidate(['ask'])),
+      this.on('AskRemoved', invalidate(['ask'])),
+      this.on('BidShareUpdated', invalidate(['bidShares'])),
+      // accepting a bid clears the ask without an AskRemoved event
+      this.on('BidFinalized', invalidate(['ask'])),
+    ]
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+  }
+
+  /**
+   * Decodes the ids of the tokens minted in a transaction from the Transfer events of the asset
+   * contract, ignoring the logs of other contracts
+   * @param receipt
+   */
+  public decodeMintedTokenIds(receipt: TransactionReceipt): Array<BigNumber> {
+    return parseReceiptLogs(receipt, this.token.interface, this.tokenAddress)
+      .filter((event) => event.name == 'Transfer' && event.args[0] == AddressZero)
+      .map((event) => BigNumber.from(event.args[2]))
+  }
+
+  /**
+   * Reads back the owner, creator and data of the tokens minted in a transaction
+   * @param receipt
+   */
+  public async fetchMintResults(
+    receipt: TransactionReceipt
+  ): Promise<Array<MintResult<TData>>> {
+    const tokenIds = this.decodeMintedTokenIds(receipt)
+    return Promise.all(
+      tokenIds.map(async (tokenId) => {
+        const [owner, creator, data] = await Promise.all([
+          this.fetchOwnerOf(tokenId),
+          this.fetchCreator(tokenId),
+          this.fetchData(tokenId),
+        ])
+        return { tokenId, owner, creator, data }
+      })
+    )
+  }
+
+  /******************
+   * Private Methods
+   ******************
+   */
+
+  private async *enumerateTokens(
+    name: string,
+    fetchCount: () => Promise<BigNumber>,
+    fetchTokenId: (index: number) => Promise<BigNumber>,
+    options: Partial<TokenIteratorOptions>
+  ): AsyncGenerator<EnumeratedToken<TData>> {
+    const { pageSize, concurrency, hydrate, startIndex } = {
+      ...defaultTokenIteratorOptions,
+      ...options,
+    }
+    if (pageSize < 1 || concurrency < 1) {
+      throw new InvalidArgumentError(`${name}: pageSize and concurrency must be positive`)
+    }
+
+    const count = (await fetchCount()).toNumber()
+    for (let start = startIndex; start < count; start += pageSize) {
+      const indexes = Array.from(
+        { length: Math.min(pageSize, count - start) },
+        (_, offset) => start + offset
+      )
+      const page = await mapWithConcurrency(indexes, concurrency, async (index) => {
+        const tokenId = await fetchTokenId(index)
+        return hydrate
+          ? { index, tokenId, ...(await this.hydrateToken(tokenId)) }
+          : { index, tokenId }
+      })
+      for (const token of page) {
+        yield token
+      }
+    }
+  }
+
+  private async hydrateToken(
+    tokenId: BigNumber
+  ): Promise<Pick<EnumeratedToken<TData>, 'data' | 'creator' | 'ask' | 'bidShares'>> {
+    const [data, creator, ask, bidShares] = await Promise.all([
+      this.fetchData(tokenId),
+      this.fetchCreator(tokenId),
+      this.fetchCurrentAsk(tokenId),
+      this.fetchCurrentBidShares(tokenId),
+    ])
+    return { data, creator, ask, bidShares }
+  }
+
+  /**
+   * Returns a normalizer scaling bid amounts to 18 decimals, fetching the decimals of each currency once
+   * @protected
+   */
+  protected currencyNormalizer(): BidNormalizer {
+    const decimals = new Map<string, Promise<number>>()
+    return async (bid: Bid) => {
+      const currency = bid.currency.toLowerCase()
+      if (!decimals.has(currency)) {
+        decimals.set(currency, fetchCurrencyDecimals(bid.currency, this.signerOrProvider))
+      }
+      return normalizeCurrencyAmount(bid.amount, await decimals.get(currency))
+    }
+  }
+
+  /**
+   * Sends a transaction to a method of the token or exchange contract, converting contract reverts
+   * into ContractRevertErrors decoded with the asset and exchange ABIs
+   * @param contract
+   * @param method
+   * @param args
+   * @param options
+   * @param percentage pads the gas estimate of the method when specified
+   * @protected
+   */
+  protected async sendTransaction(
+    contract: Contract,
+    method: string,
+    args: Array<any>,
+    options: TransactionOptions = {},
+    percentage?: number
+  ): Promise<ContractTransaction> {
+    try {
+      if (options.simulate ?? this.motifConfig.simulate) {
+        await contract.callStatic[method](...args, { ...options.overrides })
+      }
+
+      const overrides = await this.populateOverrides(
+        contract,
+        method,
+        args,
+        options.overrides,
+        percentage
+      )
+      const tx: ContractTransaction = await contract[method](...args, overrides)
+      this.transactionManager?.track(tx, `${this.config.key}.${method}`)
+      return tx
+    } catch (err) {
+      throw toContractError(method, err, [this.token.interface, this.exchange.interface])
+    }
+  }
+
+  /**
+   * Fills in the gas limit and fees of a transaction according to the gas policy of the network
+   * and the configuration
+   * @param contract
+   * @param method
+   * @param args
+   * @param overrides
+   * @param percentage the default padding of the method
+   * @protected
+   */
+  protected async populateOverrides(
+    contract: Contract,
+    method: string,
+    args: Array<any>,
+    overrides: PayableOverrides = {},
+    percentage?: number
+  ): Promise<PayableOverrides> {
+    const gasPolicy = mergeGasPolicies(
+      findNetworkConfig(this.chainId)?.gasPolicy,
+      this.motifConfig.gasPolicy
+    )
+    const populated = await populateTransactionOverrides(
+      contract,
+      method,
+      args,
+      gasPolicy,
+      overrides,
+      percentage
+    )
+    this.motifConfig.logger.debug(
+      `${this.config.key}.${method}: gas limit ${
+        populated.gasLimit?.toString() ?? 'auto'
+      }`
+    )
+    return populated
+  }
+
+  /**
+   * Waits for a mint transaction and returns the minted tokens, throwing if it minted none
+   * @param name
+   * @param tx
+   * @param confirmations
+   * @protected
+   */
+  protected async waitForMintResults(
+    name: string,
+    tx: ContractTransaction,
+    confirmations: number
+  ): Promise<Array<MintResult<TData>>> {
+    const receipt = await tx.wait(confirmations)
+    const results = await this.fetchMintResults(receipt)
+    if (results.length == 0) {
+      throw new MotifError(`${name}: transaction ${tx.hash} did not mint any token`)
+    }
+    return results
+  }
+
+  /**
+   * Throws an error if the data or bid shares of a mint are invalid
+   * @param data
+   * @param bidShares
+   * @protected
+   */
+  protected validateMintArguments(data: TData, bidShares: BidShares) {
+    validateURI(data.metadataURI, this.motifConfig.uriPolicy.protocols)
+    validateURI(data.tokenURI, this.motifConfig.uriPolicy.protocols)
+    validateBidShares(bidShares.creator, bidShares.owner, bidShares.prevOwner)
+  }
+
+  /**
+   * Throws an error if the asset does not support mint vouchers
+   * @protected
+   */
+  protected ensureVouchersSupported() {
+    if (!this.config.voucherKind) {
+      throw new MotifError(
+        `ensureVouchersSupported: mint vouchers are not supported for ${this.config.key}`
+      )
+    }
+  }
+
+  /**
+   * Reads a field of a token through the cache when caching is enabled
+   * @param field
+   * @param tokenId
+   * @param mutable whether the field can change after mint
+   * @param fetch
+   * @protected
+   */
+  protected async cachedRead<T>(
+    field: string,
+    tokenId: BigNumberish,
+    mutable: boolean,
+    fetch: () => Promise<T>
+  ): Promise<T> {
+    if (!this.cache) {
+      return fetch()
+    }
+    return this.cache.read(field, BigNumber.from(tokenId).toString(), mutable, fetch)
+  }
+
+  /**
+   * Returns if a currency is the native currency or an address with a contract deployed at it
+   * @param currency
+   * @protected
+   */
+  protected async isCurrencyContract(currency: string): Promise<boolean> {
+    let parsed: string
+    try {
+      parsed = validateAndParseAddress(currency)
+    } catch (err) {
+      return false
+    }
+    if (parsed == AddressZero) {
+      return true
+    }
+    return (await this.token.provider.getCode(parsed)) != '0x'
+  }
+
+  /**
+   * Throws an error if called on a readOnly == true instance of Motif Sdk
+   * @protected
+   */
+  protected ensureNotReadOnly() {
+    if (this.readOnly) {
+      throw new ReadOnlyError(
+        'ensureNotReadOnly: readOnly Motif instance cannot call contract methods that require a signer.'
+      )
+    }
+  }
+}
@@ -0,0 +1,571 @@
+import { AddressZero } from '@ethersproject/constants'
+import { Provider } from '@ethersproject/providers'
+import { Signer } from '@ethersproject/abstract-signer'
+import { defaultMotifConfig } from './config'
+import { MotifError } from './errors'
+import {
+  AssetEvent,
+  compareEventLocations,
+  EventFilter,
+  EventQueryOptions,
+  ListingEvent,
+  Timestamped,
+} from './events'
+import { MemoryIndexerStore } from './indexerStores'
+import { Motif } from './Motif'
+import {
+  IndexedAsk,
+  IndexedBid,
+  IndexedListing,
+  IndexedListingStatus,
+  IndexedToken,
+  IndexerSnapshot,
+  IndexerStore,
+  MotifConfig,
+} from './types'
+
+type IndexableEvent = Timestamped<AssetEvent | ListingEvent>
+
+/**
+ * Contract whose history the MotifIndexer replays, i.e. a MotifAsset or a MotifListing
+ */
+export type IndexerSource = {
+  // asset key, e.g. `item` or `land`
+  asset: string
+  // address of the contract, sources with an empty or zero address are not deployed and skipped
+  address?: string
+  contract: {
+    fetchHistory(
+      filter: EventFilter,
+      options: EventQueryOptions
+    ): Promise<Array<IndexableEvent>>
+  }
+}
+
+export type MotifIndexerOptions = {
+  // first block replayed when the store is empty, e.g. the deployment block of the contracts
+  startBlock: number
+  // blocks kept out of the persisted snapshot, rolled back and replayed on reorgs
+  reorgDepth: number
+  // blocks per getLogs request
+  blockRange: number
+  store: IndexerStore
+}
+
+/**
+ * Returns if the contract of a source is deployed, the address books leave the address of the
+ * contracts missing on a network empty
+ */
+function isDeployed(source: IndexerSource): boolean {
+  return source.address == null || (source.address != '' && source.address != AddressZero)
+}
+
+type IndexedEvent = {
+  asset: string
+  event: IndexableEvent
+}
+
+/**
+ * Replays the events of the asset, exchange and listing contracts into a local store and answers
+ * queries over tokens, asks, bids and listings without scanning the chain
+ */
+export class MotifIndexer {
+  public readonly provider: Provider
+  public readonly sources: Array<IndexerSource>
+  public readonly options: MotifIndexerOptions
+  public readonly motifConfig: MotifConfig
+
+  // state up to reorgDepth blocks behind the processed block, as persisted in the store
+  private snapshot: IndexerSnapshot
+  // events of the blocks after the snapshot, replayed on top of it
+  private pending: Array<IndexedEvent> = []
+  private state: IndexerSnapshot
+  private processedBlock: number
+  private processedHash?: string
+  private syncing?: Promise<number>
+  private blockListener?: () => void
+
+  constructor(
+    provider: Provider,
+    sources: Array<IndexerSource>,
+    options: Partial<MotifIndexerOptions> = {},
+    motifConfig: MotifConfig = defaultMotifConfig
+  ) {
+    this.provider = provider
+    this.sources = sources.filter(isDeployed)
+    this.options = {
+      startBlock: options.startBlock ?? 0,
+      reorgDepth: options.reorgDepth ?? 12,
+      blockRange: options.blockRange ?? 5000,
+      store: options.store ?? new MemoryIndexerStore(),
+    }
+    this.motifConfig = motifConfig
+    this.reset(emptySnapshot(this.options.startBlock - 1))
+  }
+
+  /**
+   * Creates an indexer of every asset, exchange and listing contract of a Motif client
+   *
+   * @param motif
+   * @param options
+   */
+  public static fromMotif(
+    motif: Motif,
+    options: Partial<MotifIndexerOptions> = {}
+  ): MotifIndexer {
+    const provider = Signer.isSigner(motif.signerOrProvider)
+      ? motif.signerOrProvider.provider
+      : motif.signerOrProvider
+    if (!provider) {
+      throw new MotifError('MotifIndexer: the signer is not connected to a provider')
+    }
+
+    const sources: Array<IndexerSource> = [
+      { asset: 'item', contract: motif.items, address: motif.items.token.address },
+      {
+        asset: 'item',
+        contract: motif.itemListings,
+        address: motif.itemListings.listing.address,
+      },
+      { asset: 'avatar', contract: motif.avatars, address: motif.avatars.token.address },
+      {
+        asset: 'avatar',
+        contract: motif.avatarListings,
+        address: motif.avatarListings.listing.address,
+      },
+      { asset: 'land', contract: motif.lands, address: motif.lands.token.address },
+      {
+        asset: 'land',
+        contract: motif.landListings,
+        address: motif.landListings.listing.address,
+      },
+      { asset: 'space', contract: motif.spaces, address: motif.spaces.token.address },
+      {
+        asset: 'space',
+        contract: motif.spaceListings,
+        address: motif.spaceListings.listing.address,
+      },
+    ].filter(isDeployed)
+    return new MotifIndexer(provider, sources, options, motif.config)
+  }
+
+  /**
+   * Last block whose events are indexed
+   */
+  public get blockNumber(): number {
+    return this.processedBlock
+  }
+
+  /**
+   * Restores the snapshot of the store, if any
+   */
+  public async load(): Promise<void> {
+    const snapshot = await this.options.store.load()
+    if (snapshot) {
+      this.reset(snapshot)
+    }
+  }
+
+  /**
+   * Indexes the events up to the latest block, rolling back the unfinalized blocks first when their
+   * chain was reorganized. Returns the last indexed block.
+   */
+  public async sync(): Promise<number> {
+    if (!this.syncing) {
+      this.syncing = this.syncToLatestBlock().finally(() => (this.syncing = undefined))
+    }
+    return this.syncing
+  }
+
+  /**
+   * Loads the store, indexes the past events and follows new blocks until stopped
+   */
+  public async start(): Promise<void> {
+    if (this.blockListener) {
+      return
+    }
+
+    await this.load()
+    await this.sync()
+
+    this.blockListener = () => {
+      this.sync().catch((err) =>
+        this.motifConfig.logger.error(`MotifIndexer: sync failed: ${err.message}`)
+      )
+    }
+    this.provider.on('block', this.blockListener)
+  }
+
+  /**
+   * Stops following new blocks
+   */
+  public stop(): void {
+    if (this.blockListener) {
+      this.provider.off('block', this.blockListener)
+      this.blockListener = undefined
+    }
+  }
+
+  /*********************
+   * Queries
+   *********************
+   */
+
+  /**
+   * Returns the indexed token, if any
+   * @param asset
+   * @param tokenId
+   */
+  public token(asset: string, tokenId: string): IndexedToken | undefined {
+    return this.state.tokens[`${asset}:${tokenId}`]
+  }
+
+  /**
+   * Returns the existing tokens, optionally of an asset, owner or creator
+   * @param filter
+   */
+  public tokens(
+    filter: { asset?: string; owner?: string; creator?: string } = {}
+  ): Array<IndexedToken> {
+    return values(this.state.tokens).filter(
+      (token) =>
+        matches(token.asset, filter.asset) &&
+        sameAddress(token.owner, filter.owner) &&
+        sameAddress(token.creator, filter.creator)
+    )
+  }
+
+  /**
+   * Returns the current asks, optionally of an asset, token or currency
+   * @param filter
+   */
+  public asks(
+    filter: { asset?: string; tokenId?: string; currency?: string } = {}
+  ): Array<IndexedAsk> {
+    return values(this.state.asks).filter(
+      (ask) =>
+        matches(ask.asset, filter.asset) &&
+        matches(ask.tokenId, filter.tokenId) &&
+        sameAddress(ask.currency, filter.currency)
+    )
+  }
+
+  /**
+   * Returns the current bids, optionally of an asset, token or bidder
+   * @param filter
+   */
+  public bids(
+    filter: { asset?: string; tokenId?: string; bidder?: string } = {}
+  ): Array<IndexedBid> {
+    return values(this.state.bids).filter(
+      (bid) =>
+        matches(bid.asset, filter.asset) &&
+        matches(bid.tokenId, filter.tokenId) &&
+        sameAddress(bid.bidder, filter.bidder)
+    )
+  }
+
+  /**
+   * Returns the listings, optionally of an asset, token, seller or status
+   * @param filter
+   */
+  public listings(
+    filter: {
+      asset?: string
+      tokenId?: string
+      tokenOwner?: string
+      status?: IndexedListingStatus
+    } = {}
+  ): Array<IndexedListing> {
+    return values(this.state.listings).filter(
+      (listing) =>
+        matches(listing.asset, filter.asset) &&
+        matches(listing.tokenId, filter.tokenId) &&
+        sameAddress(listing.tokenOwner, filter.tokenOwner) &&
+        matches(listing.status, filter.status)
+    )
+  }
+
+  /******************
+   * Private Methods
+   ******************
+   */
+
+  private reset(snapshot: IndexerSnapshot) {
+    this.snapshot = snapshot
+    this.pending = []
+    this.processedBlock = snapshot.blockNumber
+    this.processedHash = undefined
+    this.state = snapshot
+  }
+
+  private async syncToLatestBlock(): Promise<number> {
+    await this.rollbackReorganizedBlocks()
+
+    const latestBlock = await this.provider.getBlockNumber()
+    if (latestBlock > this.processedBlock) {
+      const events = await this.fetchEvents(this.processedBlock + 1, latestBlock)
+      const block = await this.provider.getBlock(latestBlock)
+      this.pending.push(...events)
+      this.processedBlock = latestBlock
+      this.processedHash = block.hash
+    }
+
+    await this.finalize(this.processedBlock - this.options.reorgDepth)
+
+    const state = cloneSnapshot(this.snapshot)
+    this.pending.forEach((indexed) => applyEvent(state, indexed))
+    state.blockNumber = this.processedBlock
+    this.state = state
+    return this.processedBlock
+  }
+
+  private async rollbackReorganizedBlocks() {
+    if (!this.processedHash) {
+      return
+    }
+
+    const block = await this.provider.getBlock(this.processedBlock)
+    if (block?.hash == this.processedHash) {
+      return
+    }
+
+    this.motifConfig.logger.warn(
+      `MotifIndexer: block ${this.processedBlock} was reorganized, rolling back to block ${this.snapshot.blockNumber}`
+    )
+    this.reset(this.snapshot)
+  }
+
+  private async fetchEvents(
+    fromBlock: number,
+    toBlock: number
+  ): Promise<Array<IndexedEvent>> {
+    const options = { fromBlock, toBlock, blockRange: this.options.blockRange }
+    const histories = await Promise.all(
+      this.sources.map(async ({ asset, contract }) => {
+        const events = await contract.fetchHistory({}, options)
+        return events.map((event) => ({ asset, event }))
+      })
+    )
+
+    return histories
+      .reduce((all, history) => all.concat(history), [])
+      .sort((a, b) => compareEventLocations(a.event, b.event))
+  }
+
+  private async finalize(blockNumber: number) {
+    if (blockNumber <= this.snapshot.blockNumber) {
+      return
+    }
+
+    const snapshot = cloneSnapshot(this.snapshot)
+    this.pending
+      .filter((indexed) => indexed.event.blockNumber <= blockNumber)
+      .forEach((indexed) => applyEvent(snapshot, indexed))
+    snapshot.blockNumber = blockNumber
+
+    await this.options.store.save(snapshot)
+    this.snapshot = snapshot
+    this.pending = this.pending.filter(
+      (indexed) => indexed.event.blockNumber > blockNumber
+    )
+  }
+}
+
+function emptySnapshot(blockNumber: number): IndexerSnapshot {
+  return { blockNumber, tokens: {}, asks: {}, bids: {}, listings: {} }
+}
+
+function cloneSnapshot(snapshot: IndexerSnapshot): IndexerSnapshot {
+  return JSON.parse(JSON.stringify(snapshot))
+}
+
+function values<T>(collection: { [key: string]: T }): Array<T> {
+  return Object.keys(collection).map((key) => collection[key])
+}
+
+function matches<T>(value: T, expected?: T): boolean {
+  return expected == null || value == expected
+}
+
+function sameAddress(address: string | undefined, expected?: string): boolean {
+  return expected == null || address?.toLowerCase() == expected.toLowerCase()
+}
+
+/**
+ * Applies an event to the materialized state
+ */
+function applyEvent(state: IndexerSnapshot, { asset, event }: IndexedEvent): void {
+  const updatedAt = event.timestamp
+
+  if ('listingId' in event) {
+    applyListingEvent(state, asset, event)
+    return
+  }
+
+  const tokenKey = `${asset}:${event.tokenId.toString()}`
+  const tokenId = event.tokenId.toString()
+  const token = state.tokens[tokenKey]
+
+  switch (event.name) {
+    case 'Transfer':
+      if (event.to == AddressZero) {
+        // burned tokens take their asks and bids with them
+        delete state.tokens[tokenKey]
+        delete state.asks[tokenKey]
+        Object.keys(state.bids)
+          .filter((key) => key.startsWith(`${tokenKey}:`))
+          .forEach((key) => delete state.bids[key])
+      } else if (token) {
+        state.tokens[tokenKey] = { ...token, owner: event.to, updatedAt }
+      } else {
+        // minted tokens are transferred from the zero address to their creator
+        state.tokens[tokenKey] = {
+          asset,
+          tokenId,
+          owner: event.to,
+          creator: event.to,
+          updatedAt,
+        }
+      }
+      break
+    case 'TokenURIUpdated':
+      if (token) {
+        state.tokens[tokenKey] = { ...token, contentURI: event.uri, updatedAt }
+      }
+      break
+    case 'TokenMetadataURIUpdated':
+      if (token) {
+        state.tokens[tokenKey] = { ...token, metadataURI: event.uri, updatedAt }
+      }
+      break
+    case 'BidShareUpdated':
+      if (token) {
+        const { prevOwner, creator, owner } = event.bidShares
+        state.tokens[tokenKey] = {
+          ...token,
+          bidShares: {
+            prevOwner: prevOwner.value.toString(),
+            creator: creator.value.toString(),
+            owner: owner.value.toString(),
+          },
+          updatedAt,
+        }
+      }
+      break
+    case 'AskCreated':
+      state.asks[tokenKey] = {
+        asset,
+        tokenId,
+        amount: event.ask.amount.toString(),
+        currency: event.ask.currency,
+        updatedAt,
+      }
+      break
+    case 'AskRemoved':
+      delete state.asks[tokenKey]
+      break
+    case 'BidCreated':
+      state.bids[`${tokenKey}:${event.bid.bidder}`] = {
+        asset,
+        tokenId,
+        bidder: event.bid.bidder,
+        recipient: event.bid.recipient,
+        amount: event.bid.amount.toString(),
+        currency: event.bid.currency,
+        sellOnShare: event.bid.sellOnShare.value.toString(),
+        updatedAt,
+      }
+      break
+    case 'BidRemoved':
+      delete state.bids[`${tokenKey}:${event.bid.bidder}`]
+      break
+    case 'BidFinalized':
+      // accepting a bid sells the token, which clears its ask
+      delete state.bids[`${tokenKey}:${event.bid.bidder}`]
+      delete state.asks[tokenKey]
+      break
+    default:
+      break
+  }
+}
+
+function applyListingEvent(
+  state: IndexerSnapshot,
+  asset: string,
+  event: Timestamped<ListingEvent>
+) {
+  const key = `${asset}:${event.listingId.toString()}`
+  const listing = state.listings[key]
+  const updatedAt = event.timestamp
+
+  if (event.name == 'ListingCreated') {
+    state.listings[key] = {
+      asset,
+      listingId: event.listingId.toString(),
+      tokenId: event.tokenId.toString(),
+      tokenContract: event.tokenContract,
+      tokenOwner: event.tokenOwner,
+      approved: false,
+      startsAt: event.startsAt.toString(),
+      duration: event.duration.toString(),
+      listPrice: event.listPrice.toString(),
+      listType: event.listType,
+      listCurrency: event.listCurrency,
+      intermediary: event.intermediary,
+      intermediaryFeePercentage: event.intermediaryFeePercentage,
+      status: 'active',
+      updatedAt,
+    }
+    return
+  }
+  if (!listing) {
+    return
+  }
+
+  switch (event.name) {
+    case 'ListingApprovalUpdated':
+      state.listings[key] = { ...listing, approved: event.approved, updatedAt }
+      break
+    case 'ListingDropApprovalUpdated':
+      state.listings[key] = {
+        ...listing,
+        approved: event.approved,
+        startsAt: event.startsAt.toString(),
+        updatedAt,
+      }
+      break
+    case 'ListingListPriceUpdated':
+      state.listings[key] = {
+        ...listing,
+        listPrice: event.listPrice.toString(),
+        updatedAt,
+      }
+      break
+    case 'ListingDurationExtended':
+      state.listings[key] = { ...listing, duration: event.duration.toString(), updatedAt }
+      break
+    case 'ListingBid':
+      state.listings[key] = {
+        ...listing,
+        highestBidder: event.sender,
+        highestBid: event.value.toString(),
+        updatedAt,
+      }
+      break
+    case 'ListingEnded':
+      state.listings[key] = {
+        ...listing,
+        status: 'ended',
+        winner: event.winner,
+        amount: event.amount.toString(),
+        updatedAt,
+      }
+      break
+    case 'ListingCanceled':
+      state.listings[key] = { ...listing, status: 'canceled', updatedAt }
+      break
+    default:
+      break
+  }
+}
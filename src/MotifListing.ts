@@ -0,0 +1,657 @@
+import { BigNumber, BigNumberish, ethers, Signer } from 'ethers'
+import { Contract, ContractTransaction, PayableOverrides } from '@ethersproject/contracts'
+import { Provider, TransactionReceipt } from '@ethersproject/providers'
+import { defaultMotifConfig } from './config'
+import { TransactionManager } from './TransactionManager'
+import { AllowanceManager } from './allowances'
+import { mergeGasPolicies, populateTransactionOverrides } from './gas'
+import {
+  InvalidArgumentError,
+  MotifError,
+  ReadOnlyError,
+  toContractError,
+} from './errors'
+import { findNetworkConfig, getNetworkAddress } from './networks'
+import { AssetContractFactory } from './MotifAsset'
+import {
+  ListingArgs,
+  ListingParams,
+  MotifConfig,
+  MultipleListingArgs,
+  PaymentOptions,
+  TransactionOptions,
+} from './types'
+import {
+  constructListing,
+  constructMultipleListings,
+  fetchCurrencyDecimals,
+  LIST_TYPES,
+  parseLogs,
+  validateAndParseAddress,
+} from './utils'
+import {
+  EventFilter,
+  EventListener,
+  EventQueryOptions,
+  LISTING_EVENT_NAMES,
+  ListingCreatedEvent,
+  ListingEvent,
+  ListingEvents,
+  queryEvents,
+  subscribeToEvent,
+  Timestamped,
+  toTypedEvent,
+} from './events'
+
+export interface MotifList {
+  approved: boolean
+  amount: BigNumber
+  startsAt: BigNumber
+  duration: BigNumber
+  firstBidTime: BigNumber
+  listPrice: BigNumber
+  listType: number
+  intermediaryFeePercentage: number
+  tokenOwner: string
+  bidder: string
+  intermediary: string
+  listCurrency: string
+}
+
+/**
+ * Lifecycle state of a listing
+ */
+export type ListingState =
+  // waiting for the intermediary to approve it
+  | 'pendingApproval'
+  // approved, starting later
+  | 'scheduled'
+  // open for a first bid, or for purchase at the list price
+  | 'live'
+  // bidding until the end time
+  | 'inAuction'
+  // bidding is over, waiting for `endListing` to settle it
+  | 'ended'
+  // ended or canceled, the listing contract no longer holds it
+  | 'settled'
+
+/**
+ * State of a listing derived from its struct at a block timestamp, in seconds
+ */
+export type ListingStatus = {
+  listingId: BigNumber
+  state: ListingState
+  listing: MotifList
+  timestamp: number
+  // auctions end `duration` seconds after their first bid, null before it
+  endsAt: number | null
+  timeRemaining: number | null
+  highestBid: { bidder: string; amount: BigNumber } | null
+  canEndListing: boolean
+}
+
+// list types accepting bids, fixed price listings settle with their purchase
+const BIDDING_LIST_TYPES = [LIST_TYPES.auction, LIST_TYPES.dropAuction]
+
+/**
+ * Derives the state of a listing at a block timestamp the way the listing contracts check it
+ *
+ * @param listingId
+ * @param listing
+ * @param timestamp block timestamp in seconds
+ */
+export function deriveListingStatus(
+  listingId: BigNumberish,
+  listing: MotifList,
+  timestamp: number
+): ListingStatus {
+  const started = !listing.firstBidTime.isZero()
+  const endsAt = started ? listing.firstBidTime.add(listing.duration).toNumber() : null
+
+  let state: ListingState
+  if (listing.tokenOwner == ethers.constants.AddressZero) {
+    state = 'settled'
+  } else if (!listing.approved) {
+    state = 'pendingApproval'
+  } else if (timestamp < listing.startsAt.toNumber()) {
+    state = 'scheduled'
+  } else if (!started) {
+    state = 'live'
+  } else if (timestamp < endsAt) {
+    state = 'inAuction'
+  } else {
+    state = 'ended'
+  }
+
+  return {
+    listingId: BigNumber.from(listingId),
+    state,
+    listing,
+    timestamp,
+    endsAt,
+    timeRemaining: endsAt == null ? null : Math.max(endsAt - timestamp, 0),
+    highestBid:
+      listing.bidder == ethers.constants.AddressZero
+        ? null
+        : { bidder: listing.bidder, amount: listing.amount },
+    canEndListing: state == 'ended' && BIDDING_LIST_TYPES.includes(listing.listType),
+  }
+}
+
+/**
+ * Describes the listing contract a MotifListing subclass is built on
+ */
+export type MotifListingConfig<TListing extends Contract> = {
+  // key of the listed asset in the address books, e.g. `item` for `item` and `itemListing`
+  key: string
+  listingFactory: AssetContractFactory<TListing>
+}
+
+/**
+ * MotifListing holds the logic shared by the Motif Item, Avatar, Land and Space Listing Contracts
+ */
+export abstract class MotifListing<TListing extends Contract> {
+  public readonly chainId: number
+  public readOnly: boolean
+  public signerOrProvider: Signer | Provider
+  public listing: TListing
+  public tokenAddress: string
+  public readonly motifConfig: MotifConfig
+  // tracks every transaction sent by the write methods when set
+  public transactionManager?: TransactionManager
+  // checks and approves the ERC-20 payments of the signer
+  public readonly allowances: AllowanceManager
+
+  protected readonly config: MotifListingConfig<TListing>
+
+  constructor(
+    signerOrProvider: Signer | Provider,
+    chainId: number,
+    config: MotifListingConfig<TListing>,
+    tokenAddress?: string,
+    listingAddress?: string,
+    motifConfig: MotifConfig = defaultMotifConfig
+  ) {
+    this.chainId = chainId
+    this.readOnly = !Signer.isSigner(signerOrProvider)
+    this.signerOrProvider = signerOrProvider
+    this.config = config
+    this.motifConfig = motifConfig
+
+    const address = listingAddress
+      ? validateAndParseAddress(listingAddress)
+      : getNetworkAddress(chainId, `${config.key}Listing`)
+    this.listing = config.listingFactory.connect(address, signerOrProvider)
+    this.allowances = new AllowanceManager(signerOrProvider, chainId, motifConfig)
+
+    if (tokenAddress) {
+      this.tokenAddress = validateAndParseAddress(tokenAddress)
+    } else {
+      this.tokenAddress = getNetworkAddress(chainId, config.key)
+    }
+  }
+
+  /**
+   * Reconnects the listing contract with a new signer or provider, switching between readOnly and
+   * write mode while keeping the resolved addresses and configuration
+   * @param signerOrProvider
+   */
+  public connect(signerOrProvider: Signer | Provider): this {
+    this.signerOrProvider = signerOrProvider
+    this.readOnly = !Signer.isSigner(signerOrProvider)
+    this.listing = this.listing.connect(signerOrProvider) as TListing
+    this.allowances.connect(signerOrProvider)
+    return this
+  }
+
+  public async fetchListing(listingId: BigNumberish): Promise<MotifList> {
+    return this.listing.listings(listingId)
+  }
+
+  /**
+   * Fetches a listing with its derived state, time remaining and highest bid
+   *
+   * @param listingId
+   * @param timestamp block timestamp in seconds to derive the state at, defaults to the latest block
+   */
+  public async fetchListingStatus(
+    listingId: BigNumberish,
+    timestamp?: number
+  ): Promise<ListingStatus> {
+    const [listing, blockTimestamp] = await Promise.all([
+      this.fetchListing(listingId),
+      timestamp ?? this.fetchLatestBlockTimestamp(),
+    ])
+    return deriveListingStatus(listingId, listing, blockTimestamp)
+  }
+
+  /**
+   * Fetches the listing of the first listing event in a transaction receipt
+   * @param receipt
+   */
+  public async fetchListingFromTransactionReceipt(
+    receipt: TransactionReceipt
+  ): Promise<MotifList | null> {
+    const [event] = this.decodeListingEvents(receipt)
+    return event ? this.fetchListing(event.listingId) : null
+  }
+
+  /**
+   * Fetches the listings created in a transaction, e.g. by createMultipleListings, in creation order
+   * @param receipt
+   */
+  public async fetchListingsFromTransactionReceipt(
+    receipt: TransactionReceipt
+  ): Promise<Array<MotifList>> {
+    const created = this.decodeListingEvents(receipt).filter(
+      (event): event is ListingCreatedEvent => event.name == 'ListingCreated'
+    )
+    return Promise.all(created.map((event) => this.fetchListing(event.listingId)))
+  }
+
+  /**
+   * Decodes the events of the listing contract in a transaction receipt, ignoring the logs of other
+   * contracts such as ERC-20 approvals or asset transfers
+   * @param receipt
+   */
+  public decodeListingEvents(receipt: TransactionReceipt): Array<ListingEvent> {
+    return parseLogs(receipt.logs, this.listing.interface, this.listing.address).map(
+      ({ log, description }) => toTypedEvent<ListingEvent>(log, description)
+    )
+  }
+
+  /**
+   * Subscribes to an event of the listing contract, e.g. `ListingCreated` or `ListingBid`.
+   * Returns a function removing the subscription.
+   *
+   * @param name
+   * @param listener
+   * @param filter
+   */
+  public on<K extends keyof ListingEvents>(
+    name: K,
+    listener: EventListener<ListingEvents[K]>,
+    filter: EventFilter = {}
+  ): () => void {
+    return subscribeToEvent(this.listing, name, listener, filter)
+  }
+
+  /**
+   * Fetches the past events of the listing contract with the specified name, e.g. the `ListingBid`
+   * events of a listing
+   *
+   * @param name
+   * @param filter
+   * @param options
+   */
+  public async fetchEvents<K extends keyof ListingEvents>(
+    name: K,
+    filter: EventFilter = {},
+    options: EventQueryOptions = {}
+  ): Promise<Array<Timestamped<ListingEvents[K]>>> {
+    return queryEvents<ListingEvents[K]>(this.listing, [name], filter, options)
+  }
+
+  /**
+   * Fetches every past event of the listing contract matching the filter in chain order
+   * @param filter
+   * @param options
+   */
+  public async fetchHistory(
+    filter: EventFilter = {},
+    options: EventQueryOptions = {}
+  ): Promise<Array<Timestamped<ListingEvent>>> {
+    return queryEvents<ListingEvent>(this.listing, LISTING_EVENT_NAMES, filter, options)
+  }
+
+  public async createListing(
+    tokenId: BigNumberish,
+    startsAt: BigNumberish,
+    duration: BigNumberish,
+    listPrice: BigNumberish,
+    listType: number,
+    intermediary: string,
+    intermediaryFeePercentages: number,
+    listCurrency: string,
+    tokenAddress: string = this.tokenAddress,
+    options: TransactionOptions = {}
+  ) {
+    return this.sendTransaction(
+      'createListing',
+      [
+        tokenId,
+        tokenAddress,
+        startsAt,
+        duration,
+        listPrice,
+        listType,
+        intermediary,
+        intermediaryFeePercentages,
+        listCurrency,
+      ],
+      options
+    )
+  }
+
+  /**
+   * Lists a token from a listing described with human amounts and dates, fetching the decimals of
+   * the currency when they are not specified
+   *
+   * @param tokenId
+   * @param params
+   * @param tokenAddress
+   * @param options
+   */
+  public async createListingFromParams(
+    tokenId: BigNumberish,
+    params: ListingParams,
+    tokenAddress: string = this.tokenAddress,
+    options: TransactionOptions = {}
+  ) {
+    const args = await this.constructListing(params)
+    return this.createListing(
+      tokenId,
+      args.startsAt,
+      args.duration,
+      args.listPrice,
+      args.listType,
+      args.intermediary,
+      args.intermediaryFeePercentage,
+      args.listCurrency,
+      tokenAddress,
+      options
+    )
+  }
+
+  /**
+   * Returns the `createListing` arguments of a listing described with human amounts and dates
+   * @param params
+   */
+  public async constructListing(params: ListingParams): Promise<ListingArgs> {
+    return constructListing(await this.withCurrencyDecimals(params))
+  }
+
+  /**
+   * Returns the `createMultipleListings` arguments of listings sharing everything but their price
+   *
+   * @param params
+   * @param prices price of each token, in units of the currency
+   */
+  public async constructMultipleListings(
+    params: Omit<ListingParams, 'price'>,
+    prices: Array<string | number>
+  ): Promise<MultipleListingArgs> {
+    return constructMultipleListings(await this.withCurrencyDecimals(params), prices)
+  }
+
+  public async setListingApproval(
+    listingId: BigNumberish,
+    approved: boolean,
+    options: TransactionOptions = {}
+  ) {
+    return this.sendTransaction('setListingApproval', [listingId, approved], options)
+  }
+
+  public async setListingDropApproval(
+    listingId: BigNumberish,
+    approved: boolean,
+    startsAt: BigNumberish,
+    options: TransactionOptions = {}
+  ) {
+    return this.sendTransaction(
+      'setListingDropApproval',
+      [listingId, approved, startsAt],
+      options
+    )
+  }
+
+  public async setListingListPrice(
+    listingId: BigNumberish,
+    listPrice: BigNumberish,
+    options: TransactionOptions = {}
+  ) {
+    return this.sendTransaction('setListingListPrice', [listingId, listPrice], options)
+  }
+
+  /**
+   * Bids on a listing, sending the amount along for native currency listings, after checking the
+   * balance of the signer and the allowance of the listing contract
+   * @param listingId
+   * @param amount
+   * @param options
+   */
+  public async createBid(
+    listingId: BigNumberish,
+    amount: BigNumberish,
+    options: PaymentOptions = {}
+  ) {
+    return this.sendPayment('createBid', listingId, amount, options)
+  }
+
+  /**
+   * Buys a fixed price listing, sending the amount along for native currency listings, after
+   * checking the balance of the signer and the allowance of the listing contract
+   * @param listingId
+   * @param amount
+   * @param options
+   */
+  public async endFixedPriceListing(
+    listingId: BigNumberish,
+    amount: BigNumberish,
+    options: PaymentOptions = {}
+  ) {
+    return this.sendPayment('endFixedPriceListing', listingId, amount, options)
+  }
+
+  public async endListing(listingId: BigNumberish, options: TransactionOptions = {}) {
+    return this.sendTransaction('endListing', [listingId], options)
+  }
+
+  public async cancelListing(listingId: BigNumberish, options: TransactionOptions = {}) {
+    return this.sendTransaction('cancelListing', [listingId], options)
+  }
+
+  private async sendPayment(
+    method: string,
+    listingId: BigNumberish,
+    amount: BigNumberish,
+    options: PaymentOptions
+  ) {
+    this.ensureNotReadOnly()
+
+    const { listCurrency } = await this.listing.listings(listingId)
+    if (options.checkFunds ?? true) {
+      await this.allowances.ensure(
+        method,
+        listCurrency,
+        this.listing.address,
+        amount,
+        options
+      )
+    }
+    // If ETH listing, include the ETH in this transaction
+    if (listCurrency === ethers.constants.AddressZero) {
+      return this.sendTransaction(method, [listingId, amount], options, { value: amount })
+    } else {
+      return this.sendTransaction(method, [listingId, amount], options)
+    }
+  }
+
+  private async withCurrencyDecimals<T extends { currency: string; decimals?: number }>(
+    params: T
+  ): Promise<T> {
+    if (params.decimals != null || params.currency == ethers.constants.AddressZero) {
+      return params
+    }
+    return {
+      ...params,
+      decimals: await fetchCurrencyDecimals(params.currency, this.signerOrProvider),
+    }
+  }
+
+  private async fetchLatestBlockTimestamp(): Promise<number> {
+    const provider = this.listing.provider
+    if (!provider) {
+      throw new MotifError(
+        'fetchListingStatus: requires a signer connected to a provider or a timestamp'
+      )
+    }
+    const block = await provider.getBlock('latest')
+    return block.timestamp
+  }
+
+  /**
+   * Sends a transaction to a method of the listing contract, converting contract reverts into
+   * ContractRevertErrors decoded with the listing ABI
+   * @param method
+   * @param args
+   * @param options
+   * @param overrides overrides of the method, e.g. the value of ETH bids, before `options.overrides`
+   * @param percentage pads the gas estimate of the method when specified
+   * @protected
+   */
+  protected async sendTransaction(
+    method: string,
+    args: Array<any>,
+    options: TransactionOptions = {},
+    overrides: PayableOverrides = {},
+    percentage?: number
+  ): Promise<ContractTransaction> {
+    this.ensureNotReadOnly()
+
+    overrides = { ...overrides, ...options.overrides }
+
+    try {
+      if (options.simulate ?? this.motifConfig.simulate) {
+        await this.listing.callStatic[method](...args, overrides)
+      }
+
+      const gasPolicy = mergeGasPolicies(
+        findNetworkConfig(this.chainId)?.gasPolicy,
+        this.motifConfig.gasPolicy
+      )
+      overrides = await populateTransactionOverrides(
+        this.listing,
+        method,
+        args,
+        gasPolicy,
+        overrides,
+        percentage
+      )
+      this.motifConfig.logger.debug(
+        `${this.config.key}Listing.${method}: gas limit ${
+          overrides.gasLimit?.toString() ?? 'auto'
+        }`
+      )
+
+      const tx: ContractTransaction = await this.listing[method](...args, overrides)
+      this.transactionManager?.track(tx, `${this.config.key}Listing.${method}`)
+      return tx
+    } catch (err) {
+      throw toContractError(method, err, [this.listing.interface])
+    }
+  }
+
+  /**
+   * Throws an error if called on a readOnly == true instance of Motif Sdk
+   * @protected
+   */
+  protected ensureNotReadOnly() {
+    if (this.readOnly) {
+      throw new ReadOnlyError(
+        'ensureNotReadOnly: readOnly Motif instance cannot call contract methods that require a signer.'
+      )
+    }
+  }
+}
+
+/**
+ * MotifMultipleListing adds the listing of several tokens in one transaction to the listing
+ * contracts supporting it, i.e. the Motif Item and Land Listing Contracts
+ */
+export abstract class MotifMultipleListing<
+  TListing extends Contract
+> extends MotifListing<TListing> {
+  /**
+   * Lists several tokens with the same start, duration, list type and intermediary in one transaction
+   *
+   * @param tokenIds
+   * @param startsAt
+   * @param duration
+   * @param listPrices list price of each token
+   * @param listType
+   * @param intermediary
+   * @param intermediaryFeePercentages
+   * @param listCurrency
+   * @param tokenAddress
+   * @param options
+   */
+  public async createMultipleListings(
+    tokenIds: Array<BigNumberish>,
+    startsAt: BigNumberish,
+    duration: BigNumberish,
+    listPrices: Array<BigNumberish>,
+    listType: number,
+    intermediary: string,
+    intermediaryFeePercentages: number,
+    listCurrency: string,
+    tokenAddress: string = this.tokenAddress,
+    options: TransactionOptions = {}
+  ) {
+    return this.sendTransaction(
+      'createMultipleListings',
+      [
+        tokenIds,
+        tokenAddress,
+        startsAt,
+        duration,
+        listPrices,
+        listType,
+        intermediary,
+        intermediaryFeePercentages,
+        listCurrency,
+      ],
+      options,
+      {},
+      105
+    )
+  }
+
+  /**
+   * Lists tokens from listings sharing everything but their price, described with human amounts
+   * and dates
+   *
+   * @param tokenIds
+   * @param params
+   * @param prices price of each token, in units of the currency
+   * @param tokenAddress
+   * @param options
+   */
+  public async createMultipleListingsFromParams(
+    tokenIds: Array<BigNumberish>,
+    params: Omit<ListingParams, 'price'>,
+    prices: Array<string | number>,
+    tokenAddress: string = this.tokenAddress,
+    options: TransactionOptions = {}
+  ) {
+    if (tokenIds.length != prices.length) {
+      throw new InvalidArgumentError(
+        `${tokenIds.length} tokens were listed with ${prices.length} prices`
+      )
+    }
+
+    const args = await this.constructMultipleListings(params, prices)
+    return this.createMultipleListings(
+      tokenIds,
+      args.startsAt,
+      args.duration,
+      args.listPrices,
+      args.listType,
+      args.intermediary,
+      args.intermediaryFeePercentage,
+      args.listCurrency,
+      tokenAddress,
+      options
+    )
+  }
+}
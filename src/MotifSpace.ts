@@ -1,7 +1,5 @@
-import { Ask, Bid, BidShares, SpaceData } from './types'
-import { Decimal } from './Decimal'
+import { SpaceData, MotifConfig } from './types'
 import { BigNumber, BigNumberish } from '@ethersproject/bignumber'
-import { ContractTransaction } from '@ethersproject/contracts'
 import { Provider } from '@ethersproject/providers'
 import { Signer } from '@ethersproject/abstract-signer'
 import {
@@ -10,321 +8,100 @@ import {
   Space,
   SpaceFactory,
 } from '@motif-foundation/asset/dist/typechain'
-import { addresses } from './addresses'
-import { Wallet } from '@ethersproject/wallet'
-import { JsonRpcProvider } from '@ethersproject/providers'
-
-import {
-  chainIdToNetworkName,
-  constructSpaceData,
-  isSpaceDataVerified,
-  validateAndParseAddress,
-  validateBidShares,
-  validateURI,
-} from './utils'
-import invariant from 'tiny-invariant'
-
-export class MotifSpace {
-  public chainId: number
-  public spaceAddress: string
-  public spaceExchangeAddress: string
-  public signerOrProvider: Signer | Provider
-  public space: Space
-  public spaceExchange: SpaceExchange
-  public readOnly: boolean
-
-  constructor(signerOrProvider: Signer | Provider, chainId: number) {
-    if (Signer.isSigner(signerOrProvider)) {
-      this.readOnly = false
-    } else {
-      this.readOnly = true
-    }
-
-    this.signerOrProvider = signerOrProvider
-    this.chainId = chainId
-
-    const network = chainIdToNetworkName(chainId)
-    this.spaceAddress = addresses[network].space
-    this.spaceExchangeAddress = addresses[network].spaceExchange
-
-    this.space = SpaceFactory.connect(this.spaceAddress, signerOrProvider)
-    this.spaceExchange = SpaceExchangeFactory.connect(
-      this.spaceExchangeAddress,
-      signerOrProvider
+import { constructSpaceData, isSpaceDataVerified } from './utils'
+import { MotifAsset } from './MotifAsset'
+
+export class MotifSpace extends MotifAsset<SpaceData, Space, SpaceExchange> {
+  constructor(
+    signerOrProvider: Signer | Provider,
+    chainId: number,
+    spaceAddress?: string,
+    spaceExchangeAddress?: string,
+    config?: MotifConfig
+  ) {
+    super(
+      signerOrProvider,
+      chainId,
+      {
+        key: 'space',
+        tokenFactory: SpaceFactory,
+        exchangeFactory: SpaceExchangeFactory,
+        isDataVerified: isSpaceDataVerified,
+      },
+      spaceAddress,
+      spaceExchangeAddress,
+      config
     )
   }
 
-  /*********************
-   * Space Read Methods
-   *********************
-   */
-
-  public async fetchContentHash(spaceId: BigNumberish): Promise<string> {
-    return this.space.tokenContentHashes(spaceId)
+  public get spaceAddress(): string {
+    return this.tokenAddress
   }
 
-  public async fetchMetadataHash(spaceId: BigNumberish): Promise<string> {
-    return this.space.tokenMetadataHashes(spaceId)
+  public get spaceExchangeAddress(): string {
+    return this.exchangeAddress
   }
 
-  public async fetchContentURI(spaceId: BigNumberish): Promise<string> {
-    return this.space.tokenURI(spaceId)
+  public get space(): Space {
+    return this.token
   }
 
-  public async fetchMetadataURI(spaceId: BigNumberish): Promise<string> {
-    return this.space.tokenMetadataURI(spaceId)
+  public get spaceExchange(): SpaceExchange {
+    return this.exchange
   }
 
+  /*********************
+   * Space Read Methods
+   *********************
+   */
+
   public async fetchPin(spaceId: BigNumberish): Promise<string> {
     return this.space.tokenPin(spaceId)
   }
 
   public async fetchLands(spaceId: BigNumberish): Promise<Array<BigNumberish>> {
-    return this.space.lands(spaceId)
-  }
-
-  public async fetchCreator(spaceId: BigNumberish): Promise<string> {
-    return this.space.tokenCreators(spaceId)
-  }
-
-  public async fetchCurrentBidShares(spaceId: BigNumberish): Promise<BidShares> {
-    return this.spaceExchange.bidSharesForToken(spaceId)
-  }
-
-  public async fetchCurrentAsk(spaceId: BigNumberish): Promise<Ask> {
-    return this.spaceExchange.currentAskForToken(spaceId)
-  }
-
-  public async fetchCurrentBidForBidder(
-    spaceId: BigNumberish,
-    bidder: string
-  ): Promise<Bid> {
-    return this.spaceExchange.bidForTokenBidder(spaceId, bidder)
-  }
-
-  public async fetchPermitNonce(
-    address: string,
-    spaceId: BigNumberish
-  ): Promise<BigNumber> {
-    return this.space.permitNonces(address, spaceId)
-  }
-
-  public async fetchMintWithSigNonce(address: string): Promise<BigNumber> {
-    return this.space.mintWithSigNonces(address)
-  }
-
-  // /*********************
-  //  *  Space Write Methods
-  //  *********************
-  //  */
-
-  public async updateContentURI(
-    spaceId: BigNumberish,
-    tokenURI: string
-  ): Promise<ContractTransaction> {
-    try {
-      this.ensureNotReadOnly()
-      validateURI(tokenURI)
-    } catch (err) {
-      return Promise.reject(err.message)
-    }
-
-    return this.space.updateTokenURI(spaceId, tokenURI)
-  }
-
-  public async updateMetadataURI(
-    spaceId: BigNumberish,
-    metadataURI: string
-  ): Promise<ContractTransaction> {
-    try {
-      this.ensureNotReadOnly()
-      validateURI(metadataURI)
-    } catch (err) {
-      return Promise.reject(err.message)
-    }
-
-    return this.space.updateTokenMetadataURI(spaceId, metadataURI)
-  }
-
-  public async mint(
-    spaceData: SpaceData,
-    bidShares: BidShares
-  ): Promise<ContractTransaction> {
-    try {
-      this.ensureNotReadOnly()
-      validateURI(spaceData.metadataURI)
-      validateURI(spaceData.tokenURI)
-      validateBidShares(bidShares.creator, bidShares.owner, bidShares.prevOwner)
-    } catch (err) {
-      return Promise.reject(err.message)
-    }
-
-    const gasEstimate = await this.space.estimateGas.mint(spaceData, bidShares)
-    const paddedEstimate = gasEstimate.mul(110).div(100)
-    return this.space.mint(spaceData, bidShares, {
-      gasLimit: paddedEstimate.toString(),
-    })
-  }
-
-  public async setAsk(spaceId: BigNumberish, ask: Ask): Promise<ContractTransaction> {
-    try {
-      this.ensureNotReadOnly()
-    } catch (err) {
-      return Promise.reject(err.message)
-    }
-
-    return this.space.setAsk(spaceId, ask)
-  }
-
-  public async setBid(spaceId: BigNumberish, bid: Bid): Promise<ContractTransaction> {
-    try {
-      this.ensureNotReadOnly()
-    } catch (err) {
-      return Promise.reject(err.message)
-    }
-
-    return this.space.setBid(spaceId, bid)
-  }
-
-  public async removeAsk(spaceId: BigNumberish): Promise<ContractTransaction> {
-    try {
-      this.ensureNotReadOnly()
-    } catch (err) {
-      return Promise.reject(err.message)
-    }
-
-    return this.space.removeAsk(spaceId)
-  }
-
-  public async removeBid(spaceId: BigNumberish): Promise<ContractTransaction> {
-    try {
-      this.ensureNotReadOnly()
-    } catch (err) {
-      return Promise.reject(err.message)
-    }
-
-    return this.space.removeBid(spaceId)
-  }
-
-  public async acceptBid(spaceId: BigNumberish, bid: Bid): Promise<ContractTransaction> {
-    try {
-      this.ensureNotReadOnly()
-    } catch (err) {
-      return Promise.reject(err.message)
-    }
-
-    return this.space.acceptBid(spaceId, bid)
-  }
-
-  public async revokeApproval(spaceId: BigNumberish): Promise<ContractTransaction> {
-    try {
-      this.ensureNotReadOnly()
-    } catch (err) {
-      return Promise.reject(err.message)
-    }
-
-    return this.space.revokeApproval(spaceId)
-  }
-
-  public async burn(spaceId: BigNumberish): Promise<ContractTransaction> {
-    try {
-      this.ensureNotReadOnly()
-    } catch (err) {
-      return Promise.reject(err.message)
-    }
-
-    return this.space.burn(spaceId)
-  }
-
-  // **********************
-  //  * ERC-721 Read Methods
-  //  ***********************
-
-  public async fetchBalanceOf(owner: string): Promise<BigNumber> {
-    return this.space.balanceOf(owner)
+    return this.cachedRead('lands', spaceId, false, () => this.space.lands(spaceId))
+  }
+
+  public async fetchData(spaceId: BigNumberish): Promise<SpaceData> {
+    const [tokenURI, metadataURI, contentHash, metadataHash, lands, pin] =
+      await Promise.all([
+        this.fetchContentURI(spaceId),
+        this.fetchMetadataURI(spaceId),
+        this.fetchContentHash(spaceId),
+        this.fetchMetadataHash(spaceId),
+        this.fetchLands(spaceId),
+        this.fetchPin(spaceId),
+      ])
+
+    return constructSpaceData(
+      tokenURI,
+      metadataURI,
+      contentHash,
+      metadataHash,
+      lands,
+      pin
+    )
   }
 
-  public async fetchOwnerOf(spaceId: BigNumberish): Promise<string> {
-    return this.space.ownerOf(spaceId)
-  }
+  /***********************
+   * ERC-721 View Methods
+   ***********************
+   */
 
   public async fetchSpaceOfOwnerByIndex(
     owner: string,
     index: BigNumberish
   ): Promise<BigNumber> {
-    return this.space.tokenOfOwnerByIndex(owner, index)
+    return this.fetchTokenOfOwnerByIndex(owner, index)
   }
 
   public async fetchTotalSpace(): Promise<BigNumber> {
-    return this.space.totalSupply()
+    return this.fetchTotalSupply()
   }
 
   public async fetchSpaceByIndex(index: BigNumberish): Promise<BigNumber> {
-    return this.space.tokenByIndex(index)
-  }
-
-  public async fetchApproved(spaceId: BigNumberish): Promise<string> {
-    return this.space.getApproved(spaceId)
-  }
-
-  public async fetchIsApprovedForAll(owner: string, operator: string): Promise<boolean> {
-    return this.space.isApprovedForAll(owner, operator)
-  }
-
-  /***********************
-   * ERC-721 Write Methods
-   ***********************
-   */
-
-  public async approve(to: string, spaceId: BigNumberish): Promise<ContractTransaction> {
-    try {
-      this.ensureNotReadOnly()
-    } catch (err) {
-      return Promise.reject(err.message)
-    }
-
-    return this.space.approve(to, spaceId)
-  }
-
-  public async setApprovalForAll(
-    operator: string,
-    approved: boolean
-  ): Promise<ContractTransaction> {
-    try {
-      this.ensureNotReadOnly()
-    } catch (err) {
-      return Promise.reject(err.message)
-    }
-
-    return this.space.setApprovalForAll(operator, approved)
-  }
-
-  public async transferFrom(
-    from: string,
-    to: string,
-    spaceId: BigNumberish
-  ): Promise<ContractTransaction> {
-    try {
-      this.ensureNotReadOnly()
-    } catch (err) {
-      return Promise.reject(err.message)
-    }
-
-    return this.space.transferFrom(from, to, spaceId)
-  }
-
-  public async safeTransferFrom(
-    from: string,
-    to: string,
-    spaceId: BigNumberish
-  ): Promise<ContractTransaction> {
-    try {
-      this.ensureNotReadOnly()
-    } catch (err) {
-      return Promise.reject(err.message)
-    }
-
-    return this.space.safeTransferFrom(from, to, spaceId)
+    return this.fetchTokenByIndex(index)
   }
 
   /****************
@@ -332,60 +109,10 @@ export class MotifSpace {
    * **************
    */
 
-  public async isValidBid(spaceId: BigNumberish, bid: Bid): Promise<boolean> {
-    const isAmountValid = await this.spaceExchange.isValidBid(spaceId, bid.amount)
-    const decimal100 = Decimal.new(100)
-    const currentBidShares = await this.fetchCurrentBidShares(spaceId)
-    const isSellOnShareValid = bid.sellOnShare.value.lte(
-      decimal100.value.sub(currentBidShares.creator.value)
-    )
-
-    return isAmountValid && isSellOnShareValid
-  }
-
-  public isValidAsk(spaceId: BigNumberish, ask: Ask): Promise<boolean> {
-    return this.spaceExchange.isValidBid(spaceId, ask.amount)
-  }
-
   public async isVerifiedSpace(
     spaceId: BigNumberish,
-    timeout: number = 10
+    timeout: number = this.motifConfig.timeout
   ): Promise<boolean> {
-    try {
-      const [tokenURI, metadataURI, contentHash, metadataHash, lands, pin] =
-        await Promise.all([
-          this.fetchContentURI(spaceId),
-          this.fetchMetadataURI(spaceId),
-          this.fetchContentHash(spaceId),
-          this.fetchMetadataHash(spaceId),
-          this.fetchLands(spaceId),
-          this.fetchPin(spaceId),
-        ])
-
-      const spaceData = constructSpaceData(
-        tokenURI,
-        metadataURI,
-        contentHash,
-        metadataHash,
-        lands,
-        pin
-      )
-      return isSpaceDataVerified(spaceData, timeout)
-    } catch (err) {
-      return Promise.reject(err.message)
-    }
-  }
-
-  /******************
-   * Private Methods
-   ******************
-   */
-
-  private ensureNotReadOnly() {
-    if (this.readOnly) {
-      throw new Error(
-        'ensureNotReadOnly: readOnly Motif instance cannot call contract methods that require a signer.'
-      )
-    }
+    return this.isVerified(spaceId, timeout)
   }
 }
@@ -0,0 +1,442 @@
+import { BigNumber } from '@ethersproject/bignumber'
+import { Overrides } from '@ethersproject/contracts'
+import {
+  Provider,
+  TransactionRequest,
+  TransactionResponse,
+} from '@ethersproject/providers'
+import { Signer } from '@ethersproject/abstract-signer'
+import { defaultMotifConfig } from './config'
+import { InvalidArgumentError, MotifError, ReadOnlyError } from './errors'
+import {
+  FeeOverrides,
+  MotifConfig,
+  TrackedTransaction,
+  TransactionManagerOptions,
+  TransactionStatus,
+} from './types'
+
+export type TransactionListener = (transaction: TrackedTransaction) => void
+
+export const defaultTransactionManagerOptions: TransactionManagerOptions = {
+  confirmations: 1,
+  pollingInterval: 4000,
+  dropTimeout: 5 * 60 * 1000,
+  maxSettled: 100,
+}
+
+// node timers can be unref'd, browser timer ids cannot
+type PollingTimer = { ref?: () => void; unref?: () => void }
+
+const FINAL_STATUSES: Array<TransactionStatus> = [
+  'confirmed',
+  'failed',
+  'replaced',
+  'cancelled',
+  'dropped',
+]
+
+/**
+ * Tracks sent transactions until they are confirmed, fail, get replaced or dropped, and replaces
+ * pending transactions to speed them up or cancel them.
+ */
+export class TransactionManager {
+  public signerOrProvider: Signer | Provider
+  public readonly options: TransactionManagerOptions
+  public readonly motifConfig: MotifConfig
+
+  private readonly transactions = new Map<string, TrackedTransaction>()
+  private readonly settlements = new Map<string, Promise<TrackedTransaction>>()
+  private readonly cancellations = new Set<string>()
+  // hashes of the settled transactions, oldest first
+  private readonly settled: Array<string> = []
+  // hashes of the transactions a caller waits for, polled with timers keeping node processes alive
+  private readonly awaited = new Set<string>()
+  private readonly timers = new Map<string, PollingTimer>()
+  private readonly listeners = new Map<TransactionStatus, Set<TransactionListener>>()
+
+  constructor(
+    signerOrProvider: Signer | Provider,
+    options: Partial<TransactionManagerOptions> = {},
+    motifConfig: MotifConfig = defaultMotifConfig
+  ) {
+    this.signerOrProvider = signerOrProvider
+    this.options = { ...defaultTransactionManagerOptions, ...options }
+    this.motifConfig = motifConfig
+  }
+
+  /**
+   * Replaces the signer or provider used to watch, speed up and cancel transactions
+   * @param signerOrProvider
+   */
+  public connect(signerOrProvider: Signer | Provider): this {
+    this.signerOrProvider = signerOrProvider
+    return this
+  }
+
+  /**
+   * Starts tracking a sent transaction
+   *
+   * @param response
+   * @param method contract method that sent the transaction, e.g. `item.mint`
+   * @param replaces hash of the transaction with the same nonce it replaces
+   */
+  public track(
+    response: TransactionResponse,
+    method?: string,
+    replaces?: string
+  ): TrackedTransaction {
+    const known = this.transactions.get(response.hash)
+    if (known) {
+      return known
+    }
+
+    const tracked: TrackedTransaction = {
+      hash: response.hash,
+      from: response.from,
+      nonce: response.nonce,
+      method,
+      status: 'pending',
+      response,
+      replaces,
+    }
+    this.transactions.set(tracked.hash, tracked)
+    this.emit(tracked)
+    this.settlements.set(tracked.hash, this.watch(tracked))
+    return tracked
+  }
+
+  /**
+   * Stops tracking a transaction
+   * @param hash
+   */
+  public untrack(hash: string): void {
+    this.transactions.delete(hash)
+    this.settlements.delete(hash)
+    this.cancellations.delete(hash)
+    this.awaited.delete(hash)
+    this.timers.delete(hash)
+    const index = this.settled.indexOf(hash)
+    if (index >= 0) {
+      this.settled.splice(index, 1)
+    }
+  }
+
+  /**
+   * Returns the tracked transaction with the specified hash, if any
+   * @param hash
+   */
+  public get(hash: string): TrackedTransaction | undefined {
+    return this.transactions.get(hash)
+  }
+
+  /**
+   * Returns the tracked transactions that are not mined with the required confirmations yet
+   */
+  public pending(): Array<TrackedTransaction> {
+    return Array.from(this.transactions.values()).filter(
+      (tracked) => !FINAL_STATUSES.includes(tracked.status)
+    )
+  }
+
+  /**
+   * Resolves with the tracked transaction once it is confirmed, failed, replaced, cancelled or dropped.
+   * Only the last `maxSettled` settled transactions stay tracked.
+   * @param hash
+   */
+  public async wait(hash: string): Promise<TrackedTransaction> {
+    const settlement = this.settlements.get(hash)
+    if (!settlement) {
+      throw new InvalidArgumentError(`wait: transaction ${hash} is not tracked`)
+    }
+    if (!FINAL_STATUSES.includes(this.transactions.get(hash).status)) {
+      this.awaited.add(hash)
+      this.timers.get(hash)?.ref?.()
+    }
+    return settlement
+  }
+
+  /**
+   * Subscribes to the transactions reaching a status. Returns a function removing the listener.
+   *
+   * @param status
+   * @param listener
+   */
+  public on(status: TransactionStatus, listener: TransactionListener): () => void {
+    const listeners = this.listeners.get(status) ?? new Set<TransactionListener>()
+    listeners.add(listener)
+    this.listeners.set(status, listeners)
+    return () => listeners.delete(listener)
+  }
+
+  /**
+   * Resends a pending transaction with the same nonce and higher fees
+   *
+   * @param hash
+   * @param multiplier percentage of the fees of the pending transaction, nodes only accept
+   * replacements paying at least 10% more
+   * @param overrides
+   */
+  public async speedUp(
+    hash: string,
+    multiplier: number = 120,
+    overrides: Overrides = {}
+  ): Promise<TrackedTransaction> {
+    const tracked = this.pendingTransaction('speedUp', hash)
+    const { response } = tracked
+    const replacement = await this.sendReplacement(
+      tracked,
+      {
+        to: response.to,
+        data: response.data,
+        value: response.value,
+        gasLimit: response.gasLimit,
+      },
+      multiplier,
+      overrides
+    )
+    return this.track(replacement, tracked.method, tracked.hash)
+  }
+
+  /**
+   * Replaces a pending transaction with a zero-value transaction to its sender
+   *
+   * @param hash
+   * @param multiplier percentage of the fees of the pending transaction, nodes only accept
+   * replacements paying at least 10% more
+   * @param overrides
+   */
+  public async cancel(
+    hash: string,
+    multiplier: number = 120,
+    overrides: Overrides = {}
+  ): Promise<TrackedTransaction> {
+    const tracked = this.pendingTransaction('cancel', hash)
+    const replacement = await this.sendReplacement(
+      tracked,
+      { to: tracked.from, data: '0x', value: 0, gasLimit: 21000 },
+      multiplier,
+      overrides
+    )
+    this.cancellations.add(replacement.hash)
+    return this.track(replacement, 'cancel', tracked.hash)
+  }
+
+  /******************
+   * Private Methods
+   ******************
+   */
+
+  private get provider(): Provider {
+    const provider = Signer.isSigner(this.signerOrProvider)
+      ? this.signerOrProvider.provider
+      : this.signerOrProvider
+    if (!provider) {
+      throw new MotifError(
+        'TransactionManager: the signer is not connected to a provider'
+      )
+    }
+    return provider
+  }
+
+  private pendingTransaction(name: string, hash: string): TrackedTransaction {
+    if (!Signer.isSigner(this.signerOrProvider)) {
+      throw new ReadOnlyError(`${name}: a provider cannot replace transactions`)
+    }
+
+    const tracked = this.transactions.get(hash)
+    if (!tracked) {
+      throw new InvalidArgumentError(`${name}: transaction ${hash} is not tracked`)
+    }
+    if (tracked.status != 'pending') {
+      throw new InvalidArgumentError(`${name}: transaction ${hash} is ${tracked.status}`)
+    }
+    return tracked
+  }
+
+  private async sendReplacement(
+    tracked: TrackedTransaction,
+    transaction: TransactionRequest,
+    multiplier: number,
+    overrides: Overrides
+  ): Promise<TransactionResponse> {
+    const signer = this.signerOrProvider as Signer
+    return signer.sendTransaction({
+      ...transaction,
+      nonce: tracked.nonce,
+      chainId: tracked.response.chainId,
+      ...bumpedFees(tracked.response, multiplier),
+      ...overrides,
+    })
+  }
+
+  private async watch(tracked: TrackedTransaction): Promise<TrackedTransaction> {
+    let missingSince: number | undefined
+
+    while (this.transactions.get(tracked.hash) === tracked) {
+      try {
+        missingSince = await this.check(tracked, missingSince)
+      } catch (err) {
+        this.motifConfig.logger.warn(`TransactionManager: ${tracked.hash} ${err.message}`)
+      }
+
+      if (FINAL_STATUSES.includes(tracked.status)) {
+        this.settle(tracked)
+        break
+      }
+      await this.sleep(tracked.hash)
+    }
+    return tracked
+  }
+
+  /**
+   * Waits for the polling interval, keeping node processes alive only while a caller waits for the
+   * transaction
+   */
+  private sleep(hash: string): Promise<void> {
+    return new Promise((resolve) => {
+      const timer: PollingTimer = setTimeout(resolve, this.options.pollingInterval)
+      if (!this.awaited.has(hash)) {
+        timer.unref?.()
+      }
+      this.timers.set(hash, timer)
+    })
+  }
+
+  /**
+   * Untracks the oldest settled transactions beyond `maxSettled`, keeping those sharing the nonce
+   * of a pending transaction to tell its replacement
+   */
+  private settle(tracked: TrackedTransaction) {
+    this.awaited.delete(tracked.hash)
+    this.timers.delete(tracked.hash)
+    this.settled.push(tracked.hash)
+
+    const pending = this.pending()
+    let excess = this.settled.length - this.options.maxSettled
+    for (let index = 0; excess > 0 && index < this.settled.length; ) {
+      const settled = this.transactions.get(this.settled[index])
+      const replacing =
+        settled &&
+        pending.some(
+          (other) =>
+            other.nonce == settled.nonce &&
+            other.from.toLowerCase() == settled.from.toLowerCase()
+        )
+      if (replacing) {
+        index++
+      } else {
+        this.untrack(this.settled[index])
+        excess--
+      }
+    }
+  }
+
+  /**
+   * Updates the status of a tracked transaction from the network, returning since when the network
+   * no longer knows the transaction
+   */
+  private async check(
+    tracked: TrackedTransaction,
+    missingSince?: number
+  ): Promise<number | undefined> {
+    const provider = this.provider
+    const receipt = await provider.getTransactionReceipt(tracked.hash)
+
+    if (receipt && receipt.blockNumber != null) {
+      tracked.receipt = receipt
+      if (receipt.status === 0) {
+        this.update(tracked, 'failed')
+      } else if (receipt.confirmations >= this.options.confirmations) {
+        this.update(tracked, 'confirmed')
+      } else if (tracked.status != 'mined') {
+        this.update(tracked, 'mined')
+      }
+      return undefined
+    }
+
+    if (tracked.status == 'mined') {
+      // the block of the transaction was reorganized away
+      tracked.receipt = undefined
+      this.update(tracked, 'pending')
+    }
+
+    const nonce = await provider.getTransactionCount(tracked.from, 'latest')
+    if (nonce > tracked.nonce) {
+      const replacement = await this.findMinedReplacement(tracked)
+      if (replacement) {
+        tracked.replacedBy = replacement.hash
+        this.update(
+          tracked,
+          this.cancellations.has(replacement.hash) ? 'cancelled' : 'replaced'
+        )
+      } else if (!(await provider.getTransactionReceipt(tracked.hash))) {
+        // replaced by a transaction sent outside of the sdk
+        this.update(tracked, 'replaced')
+      }
+      return undefined
+    }
+
+    if (await provider.getTransaction(tracked.hash)) {
+      return undefined
+    }
+
+    const since = missingSince ?? Date.now()
+    if (Date.now() - since >= this.options.dropTimeout) {
+      this.update(tracked, 'dropped')
+    }
+    return since
+  }
+
+  private async findMinedReplacement(
+    tracked: TrackedTransaction
+  ): Promise<TrackedTransaction | undefined> {
+    const siblings = Array.from(this.transactions.values()).filter(
+      (sibling) =>
+        sibling !== tracked &&
+        sibling.nonce == tracked.nonce &&
+        sibling.from.toLowerCase() == tracked.from.toLowerCase()
+    )
+
+    for (const sibling of siblings) {
+      const receipt = await this.provider.getTransactionReceipt(sibling.hash)
+      if (receipt && receipt.blockNumber != null) {
+        return sibling
+      }
+    }
+    return undefined
+  }
+
+  private update(tracked: TrackedTransaction, status: TransactionStatus) {
+    tracked.status = status
+    this.emit(tracked)
+  }
+
+  private emit(tracked: TrackedTransaction) {
+    this.motifConfig.logger.debug(`TransactionManager: ${tracked.hash} ${tracked.status}`)
+    this.listeners.get(tracked.status)?.forEach((listener) => {
+      try {
+        listener(tracked)
+      } catch (err) {
+        this.motifConfig.logger.error(
+          `TransactionManager: ${tracked.status} listener failed: ${err.message}`
+        )
+      }
+    })
+  }
+}
+
+/**
+ * Returns the fees of a pending transaction multiplied by a percentage
+ */
+function bumpedFees(response: TransactionResponse, multiplier: number): FeeOverrides {
+  const bump = (fee: BigNumber) => fee.mul(multiplier).div(100)
+
+  if (response.maxFeePerGas != null) {
+    return {
+      maxFeePerGas: bump(response.maxFeePerGas),
+      maxPriorityFeePerGas: bump(response.maxPriorityFeePerGas ?? BigNumber.from(0)),
+    }
+  }
+  return { gasPrice: bump(response.gasPrice) }
+}
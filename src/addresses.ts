@@ -4,6 +4,12 @@ import motifAddresses from '@motif-foundation/asset/dist/addresses/7018.json'
 import motifTestnetAddresses from '@motif-foundation/asset/dist/addresses/7019.json'
 import polygonAddresses from '@motif-foundation/asset/dist/addresses/137.json'
 import binanceAddresses from '@motif-foundation/asset/dist/addresses/56.json'
+import mainnetListingAddresses from '@motif-foundation/listing/dist/addresses/1.json'
+import ropstenListingAddresses from '@motif-foundation/listing/dist/addresses/3.json'
+import motifListingAddresses from '@motif-foundation/listing/dist/addresses/7018.json'
+import motifTestnetListingAddresses from '@motif-foundation/listing/dist/addresses/7019.json'
+import polygonListingAddresses from '@motif-foundation/listing/dist/addresses/137.json'
+import binanceListingAddresses from '@motif-foundation/listing/dist/addresses/56.json'
 
 interface AddressBook {
   [key: string]: {
@@ -19,3 +25,12 @@ export const addresses: AddressBook = {
   motif: motifAddresses,
   motifTestnet: motifTestnetAddresses,
 }
+
+export const listingAddresses: AddressBook = {
+  polygon: polygonListingAddresses,
+  binance: binanceListingAddresses,
+  mainnet: mainnetListingAddresses,
+  ropsten: ropstenListingAddresses,
+  motif: motifListingAddresses,
+  motifTestnet: motifTestnetListingAddresses,
+}
@@ -0,0 +1,297 @@
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber'
+import { Signer } from '@ethersproject/abstract-signer'
+import { AddressZero, MaxUint256 } from '@ethersproject/constants'
+import { Contract, ContractTransaction, PayableOverrides } from '@ethersproject/contracts'
+import { Provider } from '@ethersproject/providers'
+import { defaultMotifConfig } from './config'
+import {
+  InsufficientFundsError,
+  MotifError,
+  ReadOnlyError,
+  toContractError,
+} from './errors'
+import { mergeGasPolicies, populateTransactionOverrides } from './gas'
+import { findNetworkConfig } from './networks'
+import { TransactionManager } from './TransactionManager'
+import { FundsCheck, MotifConfig, PaymentOptions } from './types'
+import { validateAndParseAddress } from './utils'
+
+const ERC20_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+]
+
+const WETH_ABI = ['function deposit() payable', 'function withdraw(uint256 amount)']
+
+/**
+ * Checks that the connected signer can pay a bid or a purchase in a currency, wrapping the native
+ * currency and approving the spender pulling the payment when asked to
+ */
+export class AllowanceManager {
+  public signerOrProvider: Signer | Provider
+  public readonly chainId: number
+  // wrapped native currency of the network, see `NetworkConfig.wethAddress`
+  public readonly wethAddress?: string
+  public readonly motifConfig: MotifConfig
+  // tracks the approvals, deposits and withdrawals when set
+  public transactionManager?: TransactionManager
+
+  constructor(
+    signerOrProvider: Signer | Provider,
+    chainId: number,
+    motifConfig: MotifConfig = defaultMotifConfig,
+    wethAddress: string | undefined = findNetworkConfig(chainId)?.wethAddress
+  ) {
+    this.signerOrProvider = signerOrProvider
+    this.chainId = chainId
+    this.motifConfig = motifConfig
+    this.wethAddress = wethAddress ? validateAndParseAddress(wethAddress) : undefined
+  }
+
+  /**
+   * Replaces the signer or provider paying and approving
+   * @param signerOrProvider
+   */
+  public connect(signerOrProvider: Signer | Provider): this {
+    this.signerOrProvider = signerOrProvider
+    return this
+  }
+
+  /**
+   * Fetches the balance of an owner in a currency and, for ERC-20 currencies, the allowance of the
+   * spender
+   *
+   * @param currency address zero for the native currency
+   * @param owner
+   * @param spender
+   * @param amount
+   */
+  public async check(
+    currency: string,
+    owner: string,
+    spender: string,
+    amount: BigNumberish
+  ): Promise<FundsCheck> {
+    const parsedCurrency = validateAndParseAddress(currency)
+    const parsedOwner = validateAndParseAddress(owner)
+    const parsedSpender = validateAndParseAddress(spender)
+
+    if (parsedCurrency == AddressZero) {
+      return {
+        currency: parsedCurrency,
+        owner: parsedOwner,
+        spender: parsedSpender,
+        amount: BigNumber.from(amount),
+        balance: await this.provider.getBalance(parsedOwner),
+        allowance: null,
+      }
+    }
+
+    const erc20 = this.erc20(parsedCurrency)
+    const [balance, allowance] = await Promise.all([
+      erc20.balanceOf(parsedOwner),
+      erc20.allowance(parsedOwner, parsedSpender),
+    ])
+    return {
+      currency: parsedCurrency,
+      owner: parsedOwner,
+      spender: parsedSpender,
+      amount: BigNumber.from(amount),
+      balance,
+      allowance,
+    }
+  }
+
+  /**
+   * Throws an InsufficientFundsError unless the signer holds the amount and the spender is allowed
+   * to pull it, after approving the missing allowance when `approve` is set
+   *
+   * @param method method paying the amount, used in the error messages
+   * @param currency address zero for the native currency
+   * @param spender contract pulling the payment, e.g. the exchange or the listing contract
+   * @param amount
+   * @param options
+   */
+  public async ensure(
+    method: string,
+    currency: string,
+    spender: string,
+    amount: BigNumberish,
+    options: PaymentOptions = {}
+  ): Promise<FundsCheck> {
+    if (!Signer.isSigner(this.signerOrProvider)) {
+      throw new ReadOnlyError(`${method}: a provider cannot pay bids or purchases`)
+    }
+
+    const owner = await this.signerOrProvider.getAddress()
+    let funds = await this.check(currency, owner, spender, amount)
+    if (
+      options.wrap &&
+      funds.currency == this.wethAddress &&
+      funds.balance.lt(funds.amount)
+    ) {
+      const shortfall = funds.amount.sub(funds.balance)
+      const native = await this.provider.getBalance(owner)
+      if (native.lt(shortfall)) {
+        throw new InsufficientFundsError(
+          `${method}: ${owner} holds ${funds.balance} of ${funds.currency} and ${native} of the native currency but ${funds.amount} is required`,
+          funds.currency,
+          funds.amount,
+          funds.balance.add(native)
+        )
+      }
+      const wrapping = await this.wrap(shortfall, options.confirmations)
+      funds = { ...funds, balance: funds.amount, wrapping }
+    }
+    if (funds.balance.lt(funds.amount)) {
+      throw new InsufficientFundsError(
+        `${method}: ${owner} holds ${funds.balance} of ${funds.currency} but ${funds.amount} is required`,
+        funds.currency,
+        funds.amount,
+        funds.balance
+      )
+    }
+    if (funds.allowance == null || funds.allowance.gte(funds.amount)) {
+      return funds
+    }
+
+    if (!options.approve) {
+      throw new InsufficientFundsError(
+        `${method}: ${spender} may spend ${funds.allowance} of ${funds.currency} for ${owner} but ${funds.amount} is required, approve it first or pass the approve option`,
+        funds.currency,
+        funds.amount,
+        funds.allowance
+      )
+    }
+
+    const approved = options.approve == 'unlimited' ? MaxUint256 : funds.amount
+    this.motifConfig.logger.debug(
+      `AllowanceManager: approving ${approved} of ${funds.currency} for ${funds.spender}`
+    )
+    const approval = await this.sendTransaction(
+      'erc20',
+      this.erc20(funds.currency),
+      'approve',
+      [funds.spender, approved],
+      {},
+      options.confirmations
+    )
+    return { ...funds, allowance: approved, approval }
+  }
+
+  /**
+   * Wraps an amount of the native currency into the WETH of the network and waits for the deposit
+   *
+   * @param amount
+   * @param confirmations
+   */
+  public async wrap(
+    amount: BigNumberish,
+    confirmations: number = 1
+  ): Promise<ContractTransaction> {
+    return this.sendTransaction(
+      'weth',
+      this.weth('deposit'),
+      'deposit',
+      [],
+      { value: amount },
+      confirmations
+    )
+  }
+
+  /**
+   * Unwraps an amount of the WETH of the network into the native currency, e.g. the refund of a
+   * removed bid, and waits for the withdrawal
+   *
+   * @param amount
+   * @param confirmations
+   */
+  public async unwrap(
+    amount: BigNumberish,
+    confirmations: number = 1
+  ): Promise<ContractTransaction> {
+    return this.sendTransaction(
+      'weth',
+      this.weth('withdraw'),
+      'withdraw',
+      [amount],
+      {},
+      confirmations
+    )
+  }
+
+  /**
+   * Returns the ERC-20 contract of a currency, connected to the signer or provider
+   * @param currency
+   * @protected
+   */
+  protected erc20(currency: string): Contract {
+    return new Contract(currency, ERC20_ABI, this.signerOrProvider)
+  }
+
+  /**
+   * Returns the WETH contract of the network, connected to the signer or provider
+   * @param method method requiring the contract, used in the error message
+   * @protected
+   */
+  protected weth(method: string): Contract {
+    if (!this.wethAddress) {
+      throw new MotifError(`${method}: the network has no WETH address`)
+    }
+    return new Contract(this.wethAddress, WETH_ABI, this.signerOrProvider)
+  }
+
+  /******************
+   * Private Methods
+   ******************
+   */
+
+  private get provider(): Provider {
+    const provider = Signer.isSigner(this.signerOrProvider)
+      ? this.signerOrProvider.provider
+      : this.signerOrProvider
+    if (!provider) {
+      throw new MotifError('AllowanceManager: the signer is not connected to a provider')
+    }
+    return provider
+  }
+
+  /**
+   * Sends a transaction with the gas policy of the network and the configuration, tracks it with
+   * the transaction manager and waits for its confirmations
+   */
+  private async sendTransaction(
+    name: string,
+    contract: Contract,
+    method: string,
+    args: Array<any>,
+    overrides: PayableOverrides,
+    confirmations: number = 1
+  ): Promise<ContractTransaction> {
+    if (!Signer.isSigner(this.signerOrProvider)) {
+      throw new ReadOnlyError(`${method}: a provider cannot send transactions`)
+    }
+
+    let tx: ContractTransaction
+    try {
+      const gasPolicy = mergeGasPolicies(
+        findNetworkConfig(this.chainId)?.gasPolicy,
+        this.motifConfig.gasPolicy
+      )
+      const populated = await populateTransactionOverrides(
+        contract,
+        method,
+        args,
+        gasPolicy,
+        overrides
+      )
+      tx = await contract[method](...args, populated)
+      this.transactionManager?.track(tx, `${name}.${method}`)
+    } catch (err) {
+      throw toContractError(method, err)
+    }
+    await tx.wait(confirmations)
+    return tx
+  }
+}
@@ -0,0 +1,150 @@
+import { BigNumber } from '@ethersproject/bignumber'
+import { CacheAdapter, CachePolicy } from './types'
+
+export const defaultCacheTTL = 15 * 1000
+
+type CacheEntry = {
+  value: unknown
+  expiresAt?: number
+}
+
+/**
+ * In-memory cache evicting the least recently used entries beyond its maximum size
+ */
+export class LRUCache implements CacheAdapter {
+  public readonly maxSize: number
+
+  private readonly entries = new Map<string, CacheEntry>()
+
+  constructor(maxSize: number = 1000) {
+    this.maxSize = maxSize
+  }
+
+  public get size(): number {
+    return this.entries.size
+  }
+
+  public get(key: string): unknown {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      return undefined
+    }
+    if (entry.expiresAt != null && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key)
+      return undefined
+    }
+
+    // maps iterate in insertion order, reinserting marks the entry as the most recently used
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return entry.value
+  }
+
+  public set(key: string, value: unknown, ttl?: number): void {
+    this.entries.delete(key)
+    this.entries.set(key, {
+      value,
+      expiresAt: ttl == null ? undefined : Date.now() + ttl,
+    })
+
+    while (this.entries.size > this.maxSize) {
+      this.entries.delete(this.entries.keys().next().value)
+    }
+  }
+
+  public delete(key: string): void {
+    this.entries.delete(key)
+  }
+
+  public clear(): void {
+    this.entries.clear()
+  }
+}
+
+/**
+ * Reads fields through a cache adapter, fetching and storing the missing ones. Keys are prefixed
+ * with a namespace so that several contracts can share an adapter.
+ */
+export class ReadThroughCache {
+  public readonly adapter: CacheAdapter
+  public readonly ttl: number
+  public readonly namespace: string
+
+  constructor(policy: Partial<CachePolicy>, namespace: string) {
+    this.adapter = policy.adapter ?? new LRUCache()
+    this.ttl = policy.ttl ?? defaultCacheTTL
+    this.namespace = namespace
+  }
+
+  /**
+   * Returns the cached field of a token, fetching it on a miss. Immutable fields never expire,
+   * mutable fields expire after the ttl of the policy. Zero or empty immutable fields are not
+   * cached, as the contracts return them for tokens that are not minted yet.
+   *
+   * @param field
+   * @param tokenId
+   * @param mutable
+   * @param fetch
+   */
+  public async read<T>(
+    field: string,
+    tokenId: string,
+    mutable: boolean,
+    fetch: () => Promise<T>
+  ): Promise<T> {
+    if (mutable && this.ttl <= 0) {
+      return fetch()
+    }
+
+    const key = this.key(field, tokenId)
+    const cached = await this.adapter.get(key)
+    if (cached !== undefined) {
+      return cached as T
+    }
+
+    const value = await fetch()
+    if (!mutable && isEmptyValue(value)) {
+      return value
+    }
+    await this.adapter.set(key, value, mutable ? this.ttl : undefined)
+    return value
+  }
+
+  /**
+   * Removes the cached fields of a token
+   * @param fields
+   * @param tokenId
+   */
+  public async invalidate(fields: Array<string>, tokenId: string): Promise<void> {
+    await Promise.all(
+      fields.map((field) => this.adapter.delete(this.key(field, tokenId)))
+    )
+  }
+
+  private key(field: string, tokenId: string): string {
+    return `${this.namespace}:${field}:${tokenId}`
+  }
+}
+
+/**
+ * Returns if a value is the zero or empty value a contract returns for a missing entry, e.g. the
+ * zero address, a zero hash or a zero number
+ */
+function isEmptyValue(value: unknown): boolean {
+  if (value == null) {
+    return true
+  }
+  if (typeof value == 'string') {
+    return /^(0x)?0*$/.test(value)
+  }
+  if (typeof value == 'number') {
+    return value == 0
+  }
+  if (BigNumber.isBigNumber(value)) {
+    return value.isZero()
+  }
+  if (Array.isArray(value)) {
+    return value.length == 0
+  }
+  return false
+}
@@ -0,0 +1,43 @@
+import { Logger, MotifConfig } from './types'
+
+const noop = () => {}
+
+/**
+ * Logger that discards every message
+ */
+export const silentLogger: Logger = {
+  debug: noop,
+  info: noop,
+  warn: noop,
+  error: noop,
+}
+
+/**
+ * Configuration used by assets and listings constructed without one
+ */
+export const defaultMotifConfig: MotifConfig = {
+  gasPolicy: {},
+  uriPolicy: { protocols: ['https'] },
+  timeout: 10,
+  logger: silentLogger,
+  simulate: false,
+  multicall: {},
+  // immutable fields only, mutable fields are cached once a ttl is set
+  cache: { ttl: 0 },
+}
+
+/**
+ * Fills in the unspecified fields of a partial configuration with the defaults
+ * @param config
+ */
+export function resolveMotifConfig(config: Partial<MotifConfig> = {}): MotifConfig {
+  return {
+    gasPolicy: config.gasPolicy ?? defaultMotifConfig.gasPolicy,
+    uriPolicy: config.uriPolicy ?? defaultMotifConfig.uriPolicy,
+    timeout: config.timeout ?? defaultMotifConfig.timeout,
+    logger: config.logger ?? defaultMotifConfig.logger,
+    simulate: config.simulate ?? defaultMotifConfig.simulate,
+    multicall: config.multicall ?? defaultMotifConfig.multicall,
+    cache: config.cache ?? defaultMotifConfig.cache,
+  }
+}
@@ -0,0 +1,308 @@
+import { defaultAbiCoder, Interface } from '@ethersproject/abi'
+import { BigNumber } from '@ethersproject/bignumber'
+import { hexDataLength, hexDataSlice, isHexString } from '@ethersproject/bytes'
+
+/**
+ * Base class of every error thrown by the Motif sdk
+ */
+export class MotifError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = new.target.name
+    Object.setPrototypeOf(this, new.target.prototype)
+  }
+}
+
+/**
+ * Thrown when a method that requires a signer is called on a readOnly instance
+ */
+export class ReadOnlyError extends MotifError {}
+
+/**
+ * Thrown when an argument fails validation before any request is sent
+ */
+export class InvalidArgumentError extends MotifError {}
+
+/**
+ * Thrown when a token or metadata URI does not match the URI policy
+ */
+export class InvalidURIError extends InvalidArgumentError {
+  public readonly uri: string
+
+  constructor(message: string, uri: string) {
+    super(message)
+    this.uri = uri
+  }
+}
+
+/**
+ * Thrown when BidShares do not sum to 100
+ */
+export class InvalidBidSharesError extends InvalidArgumentError {}
+
+/**
+ * Thrown when an address is not a valid ethereum address
+ */
+export class InvalidAddressError extends InvalidArgumentError {
+  public readonly address: string
+
+  constructor(message: string, address: string) {
+    super(message)
+    this.address = address
+  }
+}
+
+/**
+ * Thrown when a chainId is not registered with the sdk
+ */
+export class UnsupportedNetworkError extends MotifError {
+  public readonly chainId: number
+
+  constructor(message: string, chainId: number) {
+    super(message)
+    this.chainId = chainId
+  }
+}
+
+/**
+ * Decoded revert of a contract call or transaction
+ */
+export type RevertDescription = {
+  // human readable revert reason
+  reason?: string
+  // `Error` for revert strings, `Panic` for panic codes or the name of a custom error
+  errorName?: string
+  errorArgs?: Array<any>
+  panicCode?: number
+  // raw revert data
+  data?: string
+}
+
+/**
+ * Thrown when a contract call or transaction reverts
+ */
+export class ContractRevertError extends MotifError {
+  // name of the contract method that reverted
+  public readonly method: string
+  // decoded revert reason, undefined if the contract reverted without one
+  public readonly reason?: string
+  public readonly errorName?: string
+  public readonly errorArgs?: Array<any>
+  public readonly panicCode?: number
+  public readonly data?: string
+  // the error thrown by ethers
+  public readonly cause: any
+
+  constructor(method: string, revert: RevertDescription, cause: any) {
+    super(
+      revert.reason
+        ? `${method} reverted: ${revert.reason}`
+        : `${method} reverted without a reason string`
+    )
+    this.method = method
+    this.reason = revert.reason
+    this.errorName = revert.errorName
+    this.errorArgs = revert.errorArgs
+    this.panicCode = revert.panicCode
+    this.data = revert.data
+    this.cause = cause
+  }
+}
+
+/**
+ * Thrown when a signature, voucher or uri cannot be verified
+ */
+export class VerificationError extends MotifError {}
+
+/**
+ * Thrown when an account lacks the balance or the allowance to pay a bid or a purchase
+ */
+export class InsufficientFundsError extends MotifError {
+  public readonly currency: string
+  public readonly required: BigNumber
+  public readonly available: BigNumber
+
+  constructor(
+    message: string,
+    currency: string,
+    required: BigNumber,
+    available: BigNumber
+  ) {
+    super(message)
+    this.currency = currency
+    this.required = required
+    this.available = available
+  }
+}
+
+/**
+ * Thrown when a request to the Motif API fails
+ */
+export class RequestError extends MotifError {
+  public readonly status?: number
+
+  constructor(message: string, status?: number) {
+    super(message)
+    this.status = status
+  }
+}
+
+const REVERT_PREFIXES = [
+  'execution reverted: ',
+  'VM Exception while processing transaction: revert ',
+  'VM Exception while processing transaction: reverted with reason string ',
+]
+
+/**
+ * Returns the revert reason of an error thrown by ethers, or undefined if there is none
+ * @param err
+ */
+export function decodeRevertReason(err: any): string | undefined {
+  for (let current = err; current; current = current.error) {
+    const messages = [current.reason, current.message].filter((m) => typeof m == 'string')
+    for (const message of messages) {
+      for (const prefix of REVERT_PREFIXES) {
+        const index = message.indexOf(prefix)
+        if (index >= 0) {
+          return message.substring(index + prefix.length).replace(/^'|'$/g, '')
+        }
+      }
+    }
+    if (current.code == 'CALL_EXCEPTION' && typeof current.reason == 'string') {
+      return current.reason
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Returns true if an error thrown by ethers was caused by a contract revert
+ * @param err
+ */
+export function isContractRevert(err: any): boolean {
+  for (let current = err; current; current = current.error) {
+    if (current.code == 'CALL_EXCEPTION' || current.code == 'UNPREDICTABLE_GAS_LIMIT') {
+      return true
+    }
+    if (typeof current.message == 'string' && /revert/.test(current.message)) {
+      return true
+    }
+  }
+
+  return false
+}
+
+const ERROR_SELECTOR = '0x08c379a0'
+const PANIC_SELECTOR = '0x4e487b71'
+
+// https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require
+const PANIC_REASONS: { [code: number]: string } = {
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'invalid enum value',
+  0x22: 'invalid storage byte array',
+  0x31: 'pop on empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'call to an uninitialized function',
+}
+
+/**
+ * Returns the revert data of an error thrown by ethers, or undefined if there is none
+ * @param err
+ */
+export function findRevertData(err: any): string | undefined {
+  for (let current = err; current; current = current.error) {
+    const candidates = [current.data, current.data?.data]
+    const data = candidates.find(
+      (candidate) => isHexString(candidate) && hexDataLength(candidate) >= 4
+    )
+    if (data) {
+      return data
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Decodes revert data into a revert string, panic code or a custom error of the specified contract
+ * interfaces
+ * @param data
+ * @param interfaces
+ */
+export function decodeRevertData(
+  data: string,
+  interfaces: Array<Interface> = []
+): RevertDescription {
+  const selector = hexDataSlice(data, 0, 4)
+  const payload = hexDataSlice(data, 4)
+
+  try {
+    if (selector == ERROR_SELECTOR) {
+      const [reason] = defaultAbiCoder.decode(['string'], payload)
+      return { reason, errorName: 'Error', errorArgs: [reason], data }
+    }
+
+    if (selector == PANIC_SELECTOR) {
+      const [code] = defaultAbiCoder.decode(['uint256'], payload)
+      const panicCode = code.toNumber()
+      const description = PANIC_REASONS[panicCode] || 'unknown panic code'
+      return {
+        reason: `panic 0x${panicCode.toString(16)} (${description})`,
+        errorName: 'Panic',
+        errorArgs: [code],
+        panicCode,
+        data,
+      }
+    }
+  } catch (err) {
+    return { data }
+  }
+
+  for (const iface of interfaces) {
+    try {
+      const description = iface.parseError(data)
+      const errorArgs = Array.from(description.args)
+      return {
+        reason: `${description.name}(${errorArgs
+          .map((arg) => arg.toString())
+          .join(', ')})`,
+        errorName: description.name,
+        errorArgs,
+        data,
+      }
+    } catch (err) {
+      // not an error of this interface
+    }
+  }
+
+  return { data }
+}
+
+/**
+ * Converts contract reverts thrown by ethers into ContractRevertErrors, decoding their revert data
+ * with the specified contract interfaces, and returns other errors as is
+ * @param method
+ * @param err
+ * @param interfaces
+ */
+export function toContractError(
+  method: string,
+  err: any,
+  interfaces: Array<Interface> = []
+): Error {
+  if (err instanceof MotifError || !isContractRevert(err)) {
+    return err
+  }
+
+  const data = findRevertData(err)
+  const revert = data ? decodeRevertData(data, interfaces) : {}
+  return new ContractRevertError(
+    method,
+    { ...revert, reason: revert.reason ?? decodeRevertReason(err) },
+    err
+  )
+}
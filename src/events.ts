@@ -0,0 +1,557 @@
+import { Interface, LogDescription } from '@ethersproject/abi'
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber'
+import { Contract } from '@ethersproject/contracts'
+import { Filter, Log, Provider } from '@ethersproject/providers'
+import { InvalidArgumentError, MotifError } from './errors'
+import { findNetworkConfig } from './networks'
+import { Ask, Bid, BidShares } from './types'
+import { mapWithConcurrency, parseLogs } from './utils'
+
+/**
+ * Position of an event on chain
+ */
+export type EventLocation = {
+  transactionHash: string
+  blockNumber: number
+  logIndex: number
+}
+
+/**
+ * Restricts the events a subscription or query receives. Events without the filtered field never match.
+ */
+export type EventFilter = {
+  tokenId?: BigNumberish
+  listingId?: BigNumberish
+  // owner, sender or recipient of the token, e.g. either side of a Transfer
+  owner?: string
+  // bidder of exchange and listing bids, or winner of ended listings
+  bidder?: string
+}
+
+export type EventListener<T> = (event: T) => void
+
+/**
+ * Block range and retries of historical event queries
+ */
+export type EventQueryOptions = {
+  // defaults to the deployment block of the contract registered with the network, required
+  // for contracts without one
+  fromBlock?: number
+  // defaults to the latest block
+  toBlock?: number
+  // blocks per getLogs request, ranges returning too many results are split further
+  blockRange?: number
+  // retries of a failed getLogs request
+  retries?: number
+  // getBlock calls in flight at once while reading the timestamps of the events
+  concurrency?: number
+}
+
+/**
+ * Historical event with the timestamp of its block
+ */
+export type Timestamped<T> = T & { timestamp: number }
+
+/*********************
+ * Asset Events
+ *********************
+ */
+
+export type TransferEvent = EventLocation & {
+  name: 'Transfer'
+  from: string
+  to: string
+  tokenId: BigNumber
+}
+
+export type ApprovalEvent = EventLocation & {
+  name: 'Approval'
+  owner: string
+  approved: string
+  tokenId: BigNumber
+}
+
+export type TokenURIUpdatedEvent = EventLocation & {
+  name: 'TokenURIUpdated'
+  tokenId: BigNumber
+  owner: string
+  uri: string
+}
+
+export type TokenMetadataURIUpdatedEvent = EventLocation & {
+  name: 'TokenMetadataURIUpdated'
+  tokenId: BigNumber
+  owner: string
+  uri: string
+}
+
+/*********************
+ * Exchange Events
+ *********************
+ */
+
+export type BidCreatedEvent = EventLocation & {
+  name: 'BidCreated'
+  tokenId: BigNumber
+  bid: Bid
+}
+
+export type BidRemovedEvent = EventLocation & {
+  name: 'BidRemoved'
+  tokenId: BigNumber
+  bid: Bid
+}
+
+export type BidFinalizedEvent = EventLocation & {
+  name: 'BidFinalized'
+  tokenId: BigNumber
+  bid: Bid
+}
+
+export type AskCreatedEvent = EventLocation & {
+  name: 'AskCreated'
+  tokenId: BigNumber
+  ask: Ask
+}
+
+export type AskRemovedEvent = EventLocation & {
+  name: 'AskRemoved'
+  tokenId: BigNumber
+  ask: Ask
+}
+
+export type BidShareUpdatedEvent = EventLocation & {
+  name: 'BidShareUpdated'
+  tokenId: BigNumber
+  bidShares: BidShares
+}
+
+/**
+ * Events of an asset contract and its exchange by name
+ */
+export type AssetEvents = {
+  Transfer: TransferEvent
+  Approval: ApprovalEvent
+  TokenURIUpdated: TokenURIUpdatedEvent
+  TokenMetadataURIUpdated: TokenMetadataURIUpdatedEvent
+  BidCreated: BidCreatedEvent
+  BidRemoved: BidRemovedEvent
+  BidFinalized: BidFinalizedEvent
+  AskCreated: AskCreatedEvent
+  AskRemoved: AskRemovedEvent
+  BidShareUpdated: BidShareUpdatedEvent
+}
+
+export type AssetEvent = AssetEvents[keyof AssetEvents]
+
+export const ASSET_EVENT_NAMES: Array<keyof AssetEvents> = [
+  'Transfer',
+  'Approval',
+  'TokenURIUpdated',
+  'TokenMetadataURIUpdated',
+  'BidCreated',
+  'BidRemoved',
+  'BidFinalized',
+  'AskCreated',
+  'AskRemoved',
+  'BidShareUpdated',
+]
+
+export const EXCHANGE_EVENT_NAMES: Array<keyof AssetEvents> = [
+  'BidCreated',
+  'BidRemoved',
+  'BidFinalized',
+  'AskCreated',
+  'AskRemoved',
+  'BidShareUpdated',
+]
+
+/*********************
+ * Listing Events
+ *********************
+ */
+
+type ListingEventFields = EventLocation & {
+  listingId: BigNumber
+  tokenId: BigNumber
+  tokenContract: string
+}
+
+export type ListingCreatedEvent = ListingEventFields & {
+  name: 'ListingCreated'
+  startsAt: BigNumber
+  duration: BigNumber
+  listPrice: BigNumber
+  listType: number
+  tokenOwner: string
+  intermediary: string
+  intermediaryFeePercentage: number
+  listCurrency: string
+}
+
+export type ListingBidEvent = ListingEventFields & {
+  name: 'ListingBid'
+  sender: string
+  value: BigNumber
+  firstBid: boolean
+  extended: boolean
+}
+
+export type ListingEndedEvent = ListingEventFields & {
+  name: 'ListingEnded'
+  tokenOwner: string
+  intermediary: string
+  winner: string
+  amount: BigNumber
+  intermediaryFee: BigNumber
+  listCurrency: string
+}
+
+export type ListingCanceledEvent = ListingEventFields & {
+  name: 'ListingCanceled'
+  tokenOwner: string
+}
+
+export type ListingApprovalUpdatedEvent = ListingEventFields & {
+  name: 'ListingApprovalUpdated'
+  approved: boolean
+}
+
+export type ListingDropApprovalUpdatedEvent = ListingEventFields & {
+  name: 'ListingDropApprovalUpdated'
+  approved: boolean
+  startsAt: BigNumber
+}
+
+export type ListingDurationExtendedEvent = ListingEventFields & {
+  name: 'ListingDurationExtended'
+  duration: BigNumber
+}
+
+export type ListingListPriceUpdatedEvent = ListingEventFields & {
+  name: 'ListingListPriceUpdated'
+  listPrice: BigNumber
+}
+
+/**
+ * Event emitted by the Motif Item, Avatar, Land and Space Listing Contracts
+ */
+export type ListingEvent =
+  | ListingCreatedEvent
+  | ListingBidEvent
+  | ListingEndedEvent
+  | ListingCanceledEvent
+  | ListingApprovalUpdatedEvent
+  | ListingDropApprovalUpdatedEvent
+  | ListingDurationExtendedEvent
+  | ListingListPriceUpdatedEvent
+
+/**
+ * Events of a listing contract by name
+ */
+export type ListingEvents = {
+  ListingCreated: ListingCreatedEvent
+  ListingBid: ListingBidEvent
+  ListingEnded: ListingEndedEvent
+  ListingCanceled: ListingCanceledEvent
+  ListingApprovalUpdated: ListingApprovalUpdatedEvent
+  ListingDropApprovalUpdated: ListingDropApprovalUpdatedEvent
+  ListingDurationExtended: ListingDurationExtendedEvent
+  ListingListPriceUpdated: ListingListPriceUpdatedEvent
+}
+
+/*********************
+ * Event Utilities
+ *********************
+ */
+
+export const LISTING_EVENT_NAMES: Array<keyof ListingEvents> = [
+  'ListingCreated',
+  'ListingBid',
+  'ListingEnded',
+  'ListingCanceled',
+  'ListingApprovalUpdated',
+  'ListingDropApprovalUpdated',
+  'ListingDurationExtended',
+  'ListingListPriceUpdated',
+]
+
+const OWNER_FIELDS = ['owner', 'from', 'to', 'tokenOwner']
+const BIDDER_FIELDS = ['sender', 'winner']
+
+/**
+ * Builds a typed event from a decoded log, naming its arguments after the event inputs without
+ * their leading underscore, e.g. `_tokenId` becomes `tokenId`
+ * @param log
+ * @param description
+ */
+export function toTypedEvent<T extends { name: string }>(
+  log: Log,
+  description: LogDescription
+): T {
+  const fields: { [name: string]: any } = {}
+  description.eventFragment.inputs.forEach(
+    (input, index) => (fields[input.name.replace(/^_/, '')] = description.args[index])
+  )
+
+  return {
+    name: description.name,
+    ...fields,
+    transactionHash: log.transactionHash,
+    blockNumber: log.blockNumber,
+    logIndex: log.logIndex,
+  } as unknown as T
+}
+
+/**
+ * Returns the topics selecting the logs of an event, restricted to the token and listing ids of the
+ * filter when the event indexes them
+ * @param contractInterface
+ * @param name
+ * @param filter
+ */
+export function eventTopics(
+  contractInterface: Interface,
+  name: string,
+  filter: EventFilter = {}
+): Array<string | Array<string> | null> {
+  const fragment = contractInterface.getEvent(name)
+  const values = fragment.inputs
+    .filter((input) => input.indexed)
+    .map((input) => {
+      const field = input.name.replace(/^_/, '')
+      return field == 'tokenId' || field == 'listingId' ? filter[field] ?? null : null
+    })
+  return contractInterface.encodeFilterTopics(fragment, values)
+}
+
+/**
+ * Checks whether a typed event matches every field of a filter
+ * @param event
+ * @param filter
+ */
+export function matchesEventFilter(event: any, filter: EventFilter = {}): boolean {
+  const sameId = (value: any, expected?: BigNumberish) =>
+    expected == null || (value != null && BigNumber.from(value).eq(expected))
+  const someAddress = (values: Array<any>, expected?: string) =>
+    expected == null ||
+    values.some(
+      (value) => typeof value == 'string' && value.toLowerCase() == expected.toLowerCase()
+    )
+
+  return (
+    sameId(event.tokenId, filter.tokenId) &&
+    sameId(event.listingId, filter.listingId) &&
+    someAddress(
+      OWNER_FIELDS.map((field) => event[field]),
+      filter.owner
+    ) &&
+    someAddress(
+      [event.bid?.bidder, ...BIDDER_FIELDS.map((field) => event[field])],
+      filter.bidder
+    )
+  )
+}
+
+/**
+ * Subscribes to an event of a contract through its provider. Returns a function removing the
+ * subscription.
+ *
+ * @param contract
+ * @param name
+ * @param listener
+ * @param filter
+ */
+export function subscribeToEvent<T>(
+  contract: Contract,
+  name: string,
+  listener: EventListener<T>,
+  filter: EventFilter = {}
+): () => void {
+  const provider = contract.provider
+  if (!provider) {
+    throw new MotifError(`subscribe: ${name} requires a signer connected to a provider`)
+  }
+
+  const logFilter = {
+    address: contract.address,
+    topics: eventTopics(contract.interface, name, filter),
+  }
+  const handler = (log: Log) => {
+    const event = toTypedEvent<T & { name: string }>(
+      log,
+      contract.interface.parseLog(log)
+    )
+    if (matchesEventFilter(event, filter)) {
+      listener(event)
+    }
+  }
+
+  provider.on(logFilter, handler)
+  return () => {
+    provider.off(logFilter, handler)
+  }
+}
+
+/*********************
+ * Event Queries
+ *********************
+ */
+
+const DEFAULT_BLOCK_RANGE = 5000
+const DEFAULT_RETRIES = 3
+const DEFAULT_CONCURRENCY = 10
+
+/**
+ * Fetches the logs matching a filter, splitting the block range into chunks that respect the log
+ * limits of RPC providers. Without a fromBlock, the logs of a contract are fetched from its
+ * deployment block registered with the network.
+ *
+ * @param provider
+ * @param filter
+ * @param options
+ */
+export async function fetchLogs(
+  provider: Provider,
+  filter: Filter,
+  options: EventQueryOptions = {}
+): Promise<Array<Log>> {
+  const fromBlock = options.fromBlock ?? (await deploymentBlock(provider, filter))
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber())
+  const blockRange = options.blockRange ?? DEFAULT_BLOCK_RANGE
+  const retries = options.retries ?? DEFAULT_RETRIES
+
+  const logs: Array<Log> = []
+  for (let start = fromBlock; start <= toBlock; start += blockRange) {
+    const end = Math.min(start + blockRange - 1, toBlock)
+    logs.push(...(await fetchLogRange(provider, filter, start, end, retries)))
+  }
+  return logs
+}
+
+/**
+ * Fetches the typed events of a contract matching a filter with the timestamps of their blocks,
+ * in chain order
+ *
+ * @param contract
+ * @param names events to fetch, all of them are selected in a single getLogs request
+ * @param filter
+ * @param options
+ */
+export async function queryEvents<T extends EventLocation>(
+  contract: Contract,
+  names: Array<string>,
+  filter: EventFilter = {},
+  options: EventQueryOptions = {}
+): Promise<Array<Timestamped<T>>> {
+  const provider = contract.provider
+  if (!provider) {
+    throw new MotifError(
+      `queryEvents: ${names.join(', ')} requires a signer connected to a provider`
+    )
+  }
+
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY
+  if (concurrency < 1) {
+    throw new InvalidArgumentError('queryEvents: concurrency must be positive')
+  }
+
+  const iface = contract.interface
+  const topics =
+    names.length == 1
+      ? eventTopics(iface, names[0], filter)
+      : [names.map((name) => iface.getEventTopic(name))]
+  const logs = await fetchLogs(provider, { address: contract.address, topics }, options)
+
+  const events = parseLogs(logs, iface, contract.address)
+    .map(({ log, description }) => toTypedEvent<T & { name: string }>(log, description))
+    .filter((event) => matchesEventFilter(event, filter))
+  return withTimestamps(provider, events, concurrency)
+}
+
+/**
+ * Orders events by block and position in the block
+ * @param a
+ * @param b
+ */
+export function compareEventLocations(a: EventLocation, b: EventLocation): number {
+  return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+}
+
+async function deploymentBlock(provider: Provider, filter: Filter): Promise<number> {
+  const address = filter.address?.toLowerCase()
+  const network = address
+    ? findNetworkConfig((await provider.getNetwork()).chainId)
+    : null
+  const key = Object.keys(network?.addresses ?? {}).find(
+    (candidate) => network.addresses[candidate].toLowerCase() == address
+  )
+  const block = key ? network.deploymentBlocks?.[key] : undefined
+  if (block == null) {
+    throw new InvalidArgumentError(
+      `fetchLogs: fromBlock is required, no deployment block is registered for ${
+        filter.address ?? 'every contract'
+      }`
+    )
+  }
+  return block
+}
+
+async function fetchLogRange(
+  provider: Provider,
+  filter: Filter,
+  fromBlock: number,
+  toBlock: number,
+  retries: number
+): Promise<Array<Log>> {
+  try {
+    return await provider.getLogs({ ...filter, fromBlock, toBlock })
+  } catch (err) {
+    if (isLogLimitError(err) && toBlock > fromBlock) {
+      const middle = Math.floor((fromBlock + toBlock) / 2)
+      const first = await fetchLogRange(provider, filter, fromBlock, middle, retries)
+      const second = await fetchLogRange(provider, filter, middle + 1, toBlock, retries)
+      return [...first, ...second]
+    }
+
+    if (retries > 0) {
+      return fetchLogRange(provider, filter, fromBlock, toBlock, retries - 1)
+    }
+    throw err
+  }
+}
+
+// providers report their log limits with different codes and messages, e.g. Infura's -32005
+function isLogLimitError(err: any): boolean {
+  const code = err?.error?.code ?? err?.code
+  const message = [err?.message, err?.error?.message, err?.body]
+    .filter((part) => typeof part == 'string')
+    .join(' ')
+    .toLowerCase()
+
+  return (
+    code == -32005 ||
+    /too many|more than \d+ (results|logs)|limit exceeded|response size|block range/.test(
+      message
+    )
+  )
+}
+
+async function withTimestamps<T extends EventLocation>(
+  provider: Provider,
+  events: Array<T>,
+  concurrency: number
+): Promise<Array<Timestamped<T>>> {
+  const blockNumbers = Array.from(new Set(events.map((event) => event.blockNumber)))
+  const blocks = await mapWithConcurrency(blockNumbers, concurrency, (blockNumber) =>
+    provider.getBlock(blockNumber)
+  )
+  const timestamps = new Map(
+    blocks.map((block, index) => [blockNumbers[index], block.timestamp])
+  )
+
+  return events.map((event) => ({
+    ...event,
+    timestamp: timestamps.get(event.blockNumber),
+  }))
+}
@@ -0,0 +1,116 @@
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber'
+import { Contract, PayableOverrides } from '@ethersproject/contracts'
+import { Provider } from '@ethersproject/providers'
+import { FeeOverrides, FeeStrategy, GasPolicy } from './types'
+
+const FEE_FIELDS = ['gasPrice', 'maxFeePerGas', 'maxPriorityFeePerGas']
+
+/**
+ * Returns the gas limit to send for a gas estimate, given the default padding percentage of the
+ * method and the gas policy
+ * @param gasEstimate
+ * @param percentage
+ * @param gasPolicy
+ */
+export function paddedGasLimit(
+  gasEstimate: BigNumber,
+  percentage: number,
+  gasPolicy: GasPolicy
+): BigNumber {
+  return gasEstimate.mul(gasPolicy.multiplier ?? percentage).div(100)
+}
+
+/**
+ * Merges gas policies, later policies taking precedence over earlier ones
+ * @param policies
+ */
+export function mergeGasPolicies(...policies: Array<GasPolicy | undefined>): GasPolicy {
+  return policies.reduce<GasPolicy>(
+    (merged, policy) => ({
+      ...merged,
+      ...policy,
+      gasLimits: { ...merged.gasLimits, ...policy?.gasLimits },
+    }),
+    {}
+  )
+}
+
+/**
+ * Returns the fees chosen by a fee strategy
+ * @param strategy
+ * @param provider
+ */
+export async function resolveFees(
+  strategy: FeeStrategy,
+  provider: Provider
+): Promise<FeeOverrides> {
+  if (typeof strategy == 'function') {
+    return strategy(provider)
+  }
+
+  if (strategy.type == 'legacy') {
+    if (strategy.gasPrice != null) {
+      return { gasPrice: strategy.gasPrice }
+    }
+
+    const gasPrice = await provider.getGasPrice()
+    return { gasPrice: gasPrice.mul(strategy.multiplier ?? 100).div(100) }
+  }
+
+  if (strategy.maxFeePerGas != null && strategy.maxPriorityFeePerGas != null) {
+    return {
+      maxFeePerGas: strategy.maxFeePerGas,
+      maxPriorityFeePerGas: strategy.maxPriorityFeePerGas,
+    }
+  }
+
+  // providers before 5.4 have no getFeeData and send gas prices only
+  if (typeof provider.getFeeData != 'function') {
+    return { gasPrice: await provider.getGasPrice() }
+  }
+
+  const feeData = await provider.getFeeData()
+  return {
+    maxFeePerGas: strategy.maxFeePerGas ?? feeData.maxFeePerGas,
+    maxPriorityFeePerGas: strategy.maxPriorityFeePerGas ?? feeData.maxPriorityFeePerGas,
+  }
+}
+
+/**
+ * Fills in the gas limit and fees of a transaction to a contract method from the gas policy.
+ * Fields of the specified overrides are kept as is.
+ *
+ * @param contract
+ * @param method
+ * @param args
+ * @param gasPolicy
+ * @param overrides
+ * @param percentage default padding of the gas estimate of the method, if any
+ */
+export async function populateTransactionOverrides(
+  contract: Contract,
+  method: string,
+  args: Array<any>,
+  gasPolicy: GasPolicy,
+  overrides: PayableOverrides = {},
+  percentage?: number
+): Promise<PayableOverrides> {
+  const populated: PayableOverrides = { ...overrides }
+
+  if (populated.gasLimit == null) {
+    const fixedGasLimit: BigNumberish | undefined = gasPolicy.gasLimits?.[method]
+    if (fixedGasLimit != null) {
+      populated.gasLimit = fixedGasLimit
+    } else if (percentage != null || gasPolicy.multiplier != null) {
+      const gasEstimate = await contract.estimateGas[method](...args, overrides)
+      populated.gasLimit = paddedGasLimit(gasEstimate, percentage ?? 100, gasPolicy)
+    }
+  }
+
+  const hasFees = FEE_FIELDS.some((field) => populated[field] != null)
+  if (!hasFees && gasPolicy.fees) {
+    Object.assign(populated, await resolveFees(gasPolicy.fees, contract.provider))
+  }
+
+  return populated
+}
@@ -1,10 +1,22 @@
+export * from './Motif'
 export * from './MotifItem'
+export * from './MotifAsset'
 export * from './MotifSpace'
 export * from './MotifLand'
 export * from './MotifAvatar'
 export * from './types'
 export * from './utils'
+export * from './vouchers'
+export * from './provenance'
+export * from './multicall'
+export * from './cache'
+export * from './allowances'
+export * from './config'
+export * from './gas'
+export * from './errors'
+export * from './events'
 export * from './addresses'
+export * from './networks'
 export * from './metadata'
 export * from './Decimal'
 export * from './users'
@@ -12,3 +24,7 @@ export * from './ItemListing'
 export * from './SpaceListing'
 export * from './AvatarListing'
 export * from './LandListing'
+export * from './MotifListing'
+export * from './TransactionManager'
+export * from './MotifIndexer'
+export * from './indexerStores'
@@ -0,0 +1,117 @@
+import { IndexerSnapshot, IndexerStore } from './types'
+
+/**
+ * Keeps the indexed state in memory only, the indexer replays the events from its start block on restart
+ */
+export class MemoryIndexerStore implements IndexerStore {
+  private snapshot?: string
+
+  public async load(): Promise<IndexerSnapshot | undefined> {
+    return this.snapshot ? JSON.parse(this.snapshot) : undefined
+  }
+
+  public async save(snapshot: IndexerSnapshot): Promise<void> {
+    this.snapshot = JSON.stringify(snapshot)
+  }
+}
+
+/**
+ * Persists the indexed state to a JSON file
+ */
+export class JSONFileIndexerStore implements IndexerStore {
+  public readonly path: string
+
+  constructor(path: string) {
+    this.path = path
+  }
+
+  public async load(): Promise<IndexerSnapshot | undefined> {
+    const { promises } = await import('fs')
+    try {
+      return JSON.parse(await promises.readFile(this.path, 'utf8'))
+    } catch (err) {
+      if (err.code == 'ENOENT') {
+        return undefined
+      }
+      throw err
+    }
+  }
+
+  public async save(snapshot: IndexerSnapshot): Promise<void> {
+    const { promises } = await import('fs')
+    // write then rename, so a crash while saving never leaves a truncated file behind
+    const temporaryPath = `${this.path}.tmp`
+    await promises.writeFile(temporaryPath, JSON.stringify(snapshot), 'utf8')
+    await promises.rename(temporaryPath, this.path)
+  }
+}
+
+/**
+ * Synchronous SQLite database handle, e.g. a `better-sqlite3` Database
+ */
+export type SQLiteDatabase = {
+  exec(sql: string): unknown
+  prepare(sql: string): {
+    run(...params: Array<any>): unknown
+    all(...params: Array<any>): Array<any>
+  }
+}
+
+const COLLECTIONS = ['tokens', 'asks', 'bids', 'listings']
+
+/**
+ * Persists the indexed state to a SQLite database, one row per token, ask, bid and listing
+ */
+export class SQLiteIndexerStore implements IndexerStore {
+  public readonly db: SQLiteDatabase
+  public readonly table: string
+
+  constructor(db: SQLiteDatabase, table: string = 'motif_indexer') {
+    this.db = db
+    this.table = table
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS ${table} (collection TEXT NOT NULL, key TEXT NOT NULL, value TEXT NOT NULL, PRIMARY KEY (collection, key))`
+    )
+  }
+
+  public async load(): Promise<IndexerSnapshot | undefined> {
+    const rows = this.db.prepare(`SELECT collection, key, value FROM ${this.table}`).all()
+    const meta = rows.find((row) => row.collection == 'meta' && row.key == 'blockNumber')
+    if (!meta) {
+      return undefined
+    }
+
+    const snapshot: IndexerSnapshot = {
+      blockNumber: JSON.parse(meta.value),
+      tokens: {},
+      asks: {},
+      bids: {},
+      listings: {},
+    }
+    rows
+      .filter((row) => COLLECTIONS.includes(row.collection))
+      .forEach((row) => (snapshot[row.collection][row.key] = JSON.parse(row.value)))
+    return snapshot
+  }
+
+  public async save(snapshot: IndexerSnapshot): Promise<void> {
+    const insert = this.db.prepare(
+      `INSERT INTO ${this.table} (collection, key, value) VALUES (?, ?, ?)`
+    )
+
+    this.db.exec('BEGIN')
+    try {
+      this.db.exec(`DELETE FROM ${this.table}`)
+      insert.run('meta', 'blockNumber', JSON.stringify(snapshot.blockNumber))
+      COLLECTIONS.forEach((collection) =>
+        Object.keys(snapshot[collection]).forEach((key) =>
+          insert.run(collection, key, JSON.stringify(snapshot[collection][key]))
+        )
+      )
+      this.db.exec('COMMIT')
+    } catch (err) {
+      this.db.exec('ROLLBACK')
+      throw err
+    }
+  }
+}
@@ -0,0 +1,249 @@
+import { Interface } from '@ethersproject/abi'
+import { Signer } from '@ethersproject/abstract-signer'
+import { BigNumber } from '@ethersproject/bignumber'
+import { BlockTag, Provider, TransactionRequest } from '@ethersproject/providers'
+import { Deferrable, resolveProperties } from '@ethersproject/properties'
+import { defaultMotifConfig } from './config'
+import { findNetworkConfig } from './networks'
+import { MotifConfig, MulticallOptions } from './types'
+import { validateAndParseAddress } from './utils'
+
+export const defaultMulticallOptions: MulticallOptions = {
+  batchSize: 100,
+  wait: 0,
+}
+
+const multicallInterface = new Interface([
+  'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)',
+])
+
+type PendingCall = {
+  transaction: TransactionRequest
+  resolve: (result: string) => void
+  reject: (err: Error) => void
+}
+
+/**
+ * Collects the read calls made within `wait` milliseconds and sends them as one `aggregate3` call
+ * to a Multicall3 contract. Calls that revert inside the batch are retried on their own so they
+ * fail with the error of the node, and every call is sent on its own once the Multicall contract
+ * turns out to be unavailable.
+ *
+ * When created for a signer, the calls made for its address are batched too, as contracts connected
+ * to a signer make their reads for it. Those reverting inside the batch, e.g. simulations of
+ * transactions only the signer may send, are retried on their own for the signer.
+ */
+export class MulticallBatcher {
+  public readonly provider: Provider
+  public readonly address: string
+  public readonly options: MulticallOptions
+  public readonly motifConfig: MotifConfig
+  public readonly signer?: Signer
+
+  private queue: Array<PendingCall> = []
+  private timer?: ReturnType<typeof setTimeout>
+  private available = true
+  private signerAddress?: Promise<string>
+
+  constructor(
+    provider: Provider,
+    address: string,
+    options: Partial<MulticallOptions> = {},
+    motifConfig: MotifConfig = defaultMotifConfig,
+    signer?: Signer
+  ) {
+    this.provider = provider
+    this.address = validateAndParseAddress(address)
+    this.options = { ...defaultMulticallOptions, ...options }
+    this.motifConfig = motifConfig
+    this.signer = signer
+  }
+
+  /**
+   * Queues a read call for the next batch. Calls made for another sender than the signer, sending
+   * value, deploying a contract or reading another block than the latest are sent on their own, as
+   * the Multicall contract would be their `msg.sender`.
+   *
+   * @param transaction
+   * @param blockTag
+   */
+  public async call(
+    transaction: Deferrable<TransactionRequest>,
+    blockTag?: BlockTag | Promise<BlockTag>
+  ): Promise<string> {
+    const [resolved, resolvedBlockTag] = await Promise.all([
+      resolveProperties(transaction),
+      blockTag,
+    ])
+
+    const batchable =
+      this.available &&
+      resolved.to != null &&
+      (resolved.from == null || (await this.isSigner(resolved.from))) &&
+      (resolved.value == null || BigNumber.from(resolved.value).isZero()) &&
+      (resolvedBlockTag == null || resolvedBlockTag == 'latest')
+    if (!batchable) {
+      return this.provider.call(resolved, resolvedBlockTag)
+    }
+
+    return new Promise<string>((resolve, reject) => {
+      this.queue.push({ transaction: resolved, resolve, reject })
+      if (this.queue.length >= this.options.batchSize) {
+        this.flush()
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => this.flush(), this.options.wait)
+      }
+    })
+  }
+
+  /**
+   * Sends the queued calls right away
+   */
+  public flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = undefined
+    }
+
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.options.batchSize)
+      this.send(batch)
+    }
+  }
+
+  /******************
+   * Private Methods
+   ******************
+   */
+
+  private async send(batch: Array<PendingCall>) {
+    if (batch.length == 1 || !this.available) {
+      batch.forEach((pending) => this.callDirectly(pending))
+      return
+    }
+
+    let results: Array<{ success: boolean; returnData: string }>
+    try {
+      const data = multicallInterface.encodeFunctionData('aggregate3', [
+        batch.map(({ transaction }) => ({
+          target: transaction.to,
+          allowFailure: true,
+          callData: transaction.data ?? '0x',
+        })),
+      ])
+      const response = await this.provider.call({ to: this.address, data })
+      results = multicallInterface.decodeFunctionResult('aggregate3', response)[0]
+    } catch (err) {
+      // batching stops for good only when no Multicall contract is deployed at the address, other
+      // errors such as a failing node only send this batch one by one
+      if (!(await this.isDeployed())) {
+        this.available = false
+        this.motifConfig.logger.warn(
+          `MulticallBatcher: no contract at ${this.address}, sending calls one by one`
+        )
+      } else {
+        this.motifConfig.logger.warn(
+          `MulticallBatcher: aggregate3 failed, sending ${batch.length} calls one by one: ${err.message}`
+        )
+      }
+      batch.forEach((pending) => this.callDirectly(pending))
+      return
+    }
+
+    this.motifConfig.logger.debug(`MulticallBatcher: batched ${batch.length} calls`)
+    batch.forEach((pending, index) => {
+      const { success, returnData } = results[index]
+      if (success) {
+        pending.resolve(returnData)
+      } else {
+        this.callDirectly(pending)
+      }
+    })
+  }
+
+  private async isSigner(from: string): Promise<boolean> {
+    if (!this.signer) {
+      return false
+    }
+    if (!this.signerAddress) {
+      this.signerAddress = this.signer.getAddress()
+    }
+    try {
+      return (await this.signerAddress).toLowerCase() == from.toLowerCase()
+    } catch (err) {
+      return false
+    }
+  }
+
+  private async isDeployed(): Promise<boolean> {
+    try {
+      return (await this.provider.getCode(this.address)) != '0x'
+    } catch (err) {
+      return true
+    }
+  }
+
+  private callDirectly({ transaction, resolve, reject }: PendingCall) {
+    Promise.resolve()
+      .then(() => this.provider.call(transaction))
+      .then(resolve, reject)
+  }
+}
+
+/**
+ * Returns the signer or provider batching its read calls through the Multicall contract of the
+ * network, or the signer or provider itself when the network has no Multicall contract. Assets and
+ * listings connected with it batch their reads without any other change, e.g. the uris, creator,
+ * ask and bid shares of a page of tokens. Calls made for another sender than the signer are not
+ * batched.
+ *
+ * @param signerOrProvider
+ * @param chainId
+ * @param options the Multicall contract defaults to the `multicallAddress` of the network
+ * @param motifConfig
+ */
+export function withMulticall<T extends Signer | Provider>(
+  signerOrProvider: T,
+  chainId: number,
+  options: Partial<MulticallOptions> & { address?: string } = {},
+  motifConfig: MotifConfig = defaultMotifConfig
+): T {
+  const { address, ...batchOptions } = options
+  const multicallAddress = address ?? findNetworkConfig(chainId)?.multicallAddress
+  const provider = Signer.isSigner(signerOrProvider)
+    ? signerOrProvider.provider
+    : (signerOrProvider as Provider)
+  if (!multicallAddress || !provider) {
+    return signerOrProvider
+  }
+
+  const batcher = new MulticallBatcher(
+    provider,
+    multicallAddress,
+    batchOptions,
+    motifConfig,
+    Signer.isSigner(signerOrProvider) ? signerOrProvider : undefined
+  )
+  const batchedProvider = new Proxy(provider, {
+    get(target, property) {
+      if (property == 'call') {
+        return (transaction, blockTag) => batcher.call(transaction, blockTag)
+      }
+      // the other methods run on the provider itself, e.g. its event polling
+      const value = Reflect.get(target, property, target)
+      return typeof value == 'function' ? value.bind(target) : value
+    },
+  })
+  if (!Signer.isSigner(signerOrProvider)) {
+    return batchedProvider as T
+  }
+
+  // signers define their provider read-only, so the batching signer inherits from the signer
+  // instead of proxying it
+  const batchedSigner = Object.create(signerOrProvider)
+  Object.defineProperty(batchedSigner, 'provider', {
+    value: batchedProvider,
+    enumerable: true,
+  })
+  return batchedSigner
+}
@@ -0,0 +1,191 @@
+import { getAddress } from '@ethersproject/address'
+import { addresses, listingAddresses } from './addresses'
+import {
+  InvalidAddressError,
+  InvalidArgumentError,
+  UnsupportedNetworkError,
+} from './errors'
+import { NetworkConfig } from './types'
+
+// Multicall3 is deployed at the same address on most EVM chains
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11'
+
+const registry: { [chainId: number]: NetworkConfig } = {}
+
+/**
+ * Registers a network, replacing any network previously registered with the same chainId.
+ * Empty addresses are kept as is, for contracts that are not deployed on the network.
+ *
+ * @param network
+ */
+export function registerNetwork(network: NetworkConfig): NetworkConfig {
+  if (!Number.isInteger(network.chainId) || network.chainId <= 0) {
+    throw new InvalidArgumentError(
+      `registerNetwork: ${network.chainId} is not a valid chainId`
+    )
+  }
+  if (typeof network.name != 'string' || network.name.length == 0) {
+    throw new InvalidArgumentError(
+      `registerNetwork: network ${network.chainId} must have a name`
+    )
+  }
+
+  const existing = Object.values(registry).find(
+    (entry) => entry.name == network.name && entry.chainId != network.chainId
+  )
+  if (existing) {
+    throw new InvalidArgumentError(
+      `registerNetwork: ${network.name} is already registered for chainId ${existing.chainId}`
+    )
+  }
+
+  const parsedAddresses: { [key: string]: string } = {}
+  for (const [key, address] of Object.entries(network.addresses || {})) {
+    parsedAddresses[key] = address ? parseAddress(network.name, key, address) : address
+  }
+
+  const registered: NetworkConfig = {
+    ...network,
+    addresses: parsedAddresses,
+    wethAddress: network.wethAddress
+      ? parseAddress(network.name, 'wethAddress', network.wethAddress)
+      : undefined,
+    multicallAddress: network.multicallAddress
+      ? parseAddress(network.name, 'multicallAddress', network.multicallAddress)
+      : undefined,
+  }
+  registry[network.chainId] = registered
+  return registered
+}
+
+/**
+ * Registers the networks of a JSON document holding a network config or an array of them
+ *
+ * @param json
+ */
+export function registerNetworksFromJSON(json: string): Array<NetworkConfig> {
+  let parsed: NetworkConfig | Array<NetworkConfig>
+  try {
+    parsed = JSON.parse(json)
+  } catch (err) {
+    throw new InvalidArgumentError(
+      `registerNetworksFromJSON: invalid JSON: ${err.message}`
+    )
+  }
+
+  const networks = Array.isArray(parsed) ? parsed : [parsed]
+  return networks.map((network) => registerNetwork(network))
+}
+
+/**
+ * Registers the networks of a JSON file holding a network config or an array of them, e.g. the
+ * output of a local deployment script
+ *
+ * @param path
+ */
+export async function registerNetworksFromFile(
+  path: string
+): Promise<Array<NetworkConfig>> {
+  const { promises } = await import('fs')
+  const json = await promises.readFile(path, 'utf8')
+  return registerNetworksFromJSON(json)
+}
+
+/**
+ * Returns the network registered for the chainId, or undefined if there is none
+ *
+ * @param chainId
+ */
+export function findNetworkConfig(chainId: number): NetworkConfig | undefined {
+  return registry[chainId]
+}
+
+/**
+ * Returns the network registered for the chainId
+ *
+ * @param chainId
+ */
+export function getNetworkConfig(chainId: number): NetworkConfig {
+  const network = findNetworkConfig(chainId)
+  if (!network) {
+    throw new UnsupportedNetworkError(
+      `chainId ${chainId} not officially supported by the Motif`,
+      chainId
+    )
+  }
+
+  return network
+}
+
+/**
+ * Returns the address of a contract of the network registered for the chainId, empty for contracts
+ * that are not deployed on the network
+ *
+ * @param chainId
+ * @param key e.g. `item`, `itemExchange` or `itemListing`
+ */
+export function getNetworkAddress(chainId: number, key: string): string {
+  const network = getNetworkConfig(chainId)
+  const address = network.addresses[key]
+  if (address == null) {
+    throw new UnsupportedNetworkError(
+      `${network.name} (chainId ${chainId}) has no ${key} address`,
+      chainId
+    )
+  }
+
+  return address
+}
+
+/**
+ * Returns every registered network
+ */
+export function registeredNetworks(): Array<NetworkConfig> {
+  return Object.values(registry)
+}
+
+function parseAddress(network: string, key: string, address: string): string {
+  try {
+    return getAddress(address)
+  } catch (err) {
+    throw new InvalidAddressError(
+      `registerNetwork: ${key} ${address} of ${network} is not a valid address.`,
+      address
+    )
+  }
+}
+
+function builtinNetwork(
+  chainId: number,
+  name: string,
+  explorerUrl?: string,
+  multicallAddress?: string
+): NetworkConfig {
+  const { wmotif, ...listings } = listingAddresses[name]
+  return {
+    chainId,
+    name,
+    addresses: { ...addresses[name], ...listings },
+    wethAddress: wmotif,
+    explorerUrl,
+    multicallAddress,
+  }
+}
+
+// built-in networks are registered as published by the contract packages
+const builtinNetworks: Array<NetworkConfig> = [
+  builtinNetwork(1, 'mainnet', 'https://etherscan.io', MULTICALL3_ADDRESS),
+  builtinNetwork(3, 'ropsten', 'https://ropsten.etherscan.io', MULTICALL3_ADDRESS),
+  builtinNetwork(137, 'polygon', 'https://polygonscan.com', MULTICALL3_ADDRESS),
+  // BSC does not support EIP-1559 transactions
+  {
+    ...builtinNetwork(56, 'binance', 'https://bscscan.com', MULTICALL3_ADDRESS),
+    gasPolicy: { fees: { type: 'legacy' } },
+  },
+  builtinNetwork(7018, 'motif'),
+  builtinNetwork(7019, 'motifTestnet'),
+  // Due to a bug in ganache-core, local blockchains sign with chainId 1
+  // https://github.com/trufflesuite/ganache-core/issues/515
+  { chainId: 50, name: 'ganache', addresses: {}, eip712ChainId: 1 },
+]
+builtinNetworks.forEach((network) => (registry[network.chainId] = network))
@@ -0,0 +1,193 @@
+import { Signer } from '@ethersproject/abstract-signer'
+import { BigNumber } from '@ethersproject/bignumber'
+import { AddressZero } from '@ethersproject/constants'
+import { Contract } from '@ethersproject/contracts'
+import { verifyMessage } from '@ethersproject/wallet'
+import { InvalidArgumentError } from './errors'
+import {
+  AssetEvent,
+  compareEventLocations,
+  EventQueryOptions,
+  ListingEndedEvent,
+  Timestamped,
+} from './events'
+import { MotifListing } from './MotifListing'
+import { Provenance, ProvenanceEvent, ProvenanceReport } from './types'
+import { validateAndParseAddress } from './utils'
+
+/**
+ * Version of the JSON format produced by `signProvenance`
+ */
+export const PROVENANCE_REPORT_VERSION = 1
+
+export type ProvenanceOptions = EventQueryOptions & {
+  // includes the sales of the token through this listing contract
+  listing?: MotifListing<Contract>
+}
+
+/**
+ * Assembles the provenance timeline of a token from its asset, exchange and listing events.
+ * Transfers from and to the zero address become mints and burns, finalized bids become sales
+ * from the owner they transferred the token from.
+ *
+ * @param assetEvents
+ * @param listingEvents ListingEnded events of the token
+ */
+export function buildProvenanceEvents(
+  assetEvents: Array<Timestamped<AssetEvent>>,
+  listingEvents: Array<Timestamped<ListingEndedEvent>> = []
+): Array<ProvenanceEvent> {
+  const events = [...assetEvents, ...listingEvents].sort(compareEventLocations)
+  const timeline: Array<ProvenanceEvent> = []
+
+  events.forEach((event) => {
+    const location = {
+      blockNumber: event.blockNumber,
+      logIndex: event.logIndex,
+      transactionHash: event.transactionHash,
+      timestamp: event.timestamp,
+    }
+
+    switch (event.name) {
+      case 'Transfer': {
+        const type =
+          event.from == AddressZero
+            ? 'mint'
+            : event.to == AddressZero
+            ? 'burn'
+            : 'transfer'
+        timeline.push({ type, ...location, from: event.from, to: event.to })
+        break
+      }
+      case 'BidFinalized': {
+        // the exchange transfers the token to the bid recipient in the same transaction
+        const transfer = events.find(
+          (other) =>
+            other.name == 'Transfer' && other.transactionHash == event.transactionHash
+        )
+        timeline.push({
+          type: 'sale',
+          ...location,
+          from: transfer && transfer.name == 'Transfer' ? transfer.from : undefined,
+          to: event.bid.recipient,
+          amount: BigNumber.from(event.bid.amount).toString(),
+          currency: event.bid.currency,
+        })
+        break
+      }
+      case 'ListingEnded':
+        // listings ending without bids hand the token back to its owner
+        if (event.winner != AddressZero) {
+          timeline.push({
+            type: 'listingSale',
+            ...location,
+            from: event.tokenOwner,
+            to: event.winner,
+            amount: event.amount.toString(),
+            currency: event.listCurrency,
+            listingId: event.listingId.toString(),
+          })
+        }
+        break
+      case 'TokenURIUpdated':
+        timeline.push({ type: 'contentURIUpdated', ...location, uri: event.uri })
+        break
+      case 'TokenMetadataURIUpdated':
+        timeline.push({ type: 'metadataURIUpdated', ...location, uri: event.uri })
+        break
+    }
+  })
+  return timeline
+}
+
+/**
+ * Returns the message signed for a provenance: its JSON with sorted keys, so any parsed copy of the
+ * report hashes the same
+ * @param provenance
+ */
+export function provenanceMessage(provenance: Provenance): string {
+  return canonicalJSON({ version: PROVENANCE_REPORT_VERSION, provenance })
+}
+
+/**
+ * Signs a provenance with the specified signer and returns the report as JSON
+ * @param provenance
+ * @param signer
+ */
+export async function signProvenance(
+  provenance: Provenance,
+  signer: Signer
+): Promise<string> {
+  const signature = await signer.signMessage(provenanceMessage(provenance))
+  return JSON.stringify({
+    version: PROVENANCE_REPORT_VERSION,
+    provenance,
+    signer: await signer.getAddress(),
+    signature,
+  })
+}
+
+/**
+ * Parses a report produced by `signProvenance`
+ * @param json
+ */
+export function parseProvenanceReport(json: string): ProvenanceReport {
+  const parsed = JSON.parse(json)
+
+  if (parsed.version != PROVENANCE_REPORT_VERSION) {
+    throw new InvalidArgumentError(
+      `Unsupported provenance report version: ${parsed.version}`
+    )
+  }
+  if (!parsed.provenance || !Array.isArray(parsed.provenance.events)) {
+    throw new InvalidArgumentError('Provenance report is missing its provenance')
+  }
+
+  return {
+    provenance: parsed.provenance,
+    signer: validateAndParseAddress(parsed.signer),
+    signature: parsed.signature,
+  }
+}
+
+/**
+ * Recovers the address that signed the report
+ * @param report
+ */
+export function recoverProvenanceSigner(report: ProvenanceReport): string {
+  return verifyMessage(provenanceMessage(report.provenance), report.signature)
+}
+
+/**
+ * Checks that the report was signed by its signer, and by the expected signer when specified
+ * @param report
+ * @param expectedSigner
+ */
+export function isProvenanceReportVerified(
+  report: ProvenanceReport,
+  expectedSigner: string = report.signer
+): boolean {
+  try {
+    const recovered = recoverProvenanceSigner(report)
+    return (
+      recovered.toLowerCase() == report.signer.toLowerCase() &&
+      recovered.toLowerCase() == expectedSigner.toLowerCase()
+    )
+  } catch (err) {
+    return false
+  }
+}
+
+function canonicalJSON(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJSON).join(',')}]`
+  }
+  if (value && typeof value == 'object') {
+    const fields = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJSON(value[key])}`)
+    return `{${fields.join(',')}}`
+  }
+  return JSON.stringify(value)
+}
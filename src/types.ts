@@ -1,5 +1,13 @@
 import { BigNumber, BigNumberish } from '@ethersproject/bignumber'
 import { BytesLike } from '@ethersproject/bytes'
+import { ContractTransaction, Overrides } from '@ethersproject/contracts'
+import { LogDescription } from '@ethersproject/abi'
+import {
+  Log,
+  Provider,
+  TransactionReceipt,
+  TransactionResponse,
+} from '@ethersproject/providers'
 
 /**
  * Internal type to represent a Decimal Value
@@ -15,6 +23,60 @@ export type BidShares = {
   creator: DecimalValue
 }
 
+/**
+ * Listing types of the listing contracts: auctions, auctions starting when the intermediary drops
+ * them, and fixed price sales
+ */
+export type ListType = 'auction' | 'dropAuction' | 'fixedPrice'
+
+export type ListingDuration = {
+  days?: number
+  hours?: number
+  minutes?: number
+  seconds?: number
+}
+
+/**
+ * Listing described with human amounts and dates, see `constructListing`
+ */
+export type ListingParams = {
+  listType: ListType
+  // amount in units of the currency, e.g. '1.5'
+  price: string | number
+  // address zero lists in the native currency
+  currency: string
+  // decimals of the currency, 18 by default
+  decimals?: number
+  // starts as soon as the intermediary approves it by default
+  startsAt?: Date
+  // auctions run for the duration after their first bid
+  duration?: ListingDuration
+  // approves the listing and receives the fee
+  intermediary: string
+  // whole percentage of the sale, below 100
+  intermediaryFeePercentage?: number
+}
+
+/**
+ * Arguments of the `createListing` method of the listing contracts
+ */
+export type ListingArgs = {
+  startsAt: BigNumber
+  duration: BigNumber
+  listPrice: BigNumber
+  listType: number
+  intermediary: string
+  intermediaryFeePercentage: number
+  listCurrency: string
+}
+
+/**
+ * Arguments of the `createMultipleListings` method of the listing contracts
+ */
+export type MultipleListingArgs = Omit<ListingArgs, 'listPrice'> & {
+  listPrices: Array<BigNumber>
+}
+
 /**
  * Motif Item Protocol Ask
  */
@@ -89,3 +151,509 @@ export type EIP712Domain = {
   chainId: number
   verifyingContract: string
 }
+
+/**
+ * Asset kinds that can be minted with a creator signature through `mintWithSig`
+ */
+/**
+ * Log decoded with the interface of the contract that emitted it
+ */
+export type ParsedLog = {
+  log: Log
+  description: LogDescription
+}
+
+/**
+ * Token minted in a transaction, read back from the asset contract
+ */
+export type MintResult<TData> = {
+  tokenId: BigNumber
+  owner: string
+  creator: string
+  data: TData
+}
+
+export type MintVoucherKind = 'item' | 'avatar'
+
+/**
+ * Off-chain authorization from a creator to mint the specified data through `mintWithSig`
+ */
+export type MintVoucher<T extends ItemData | AvatarData = ItemData | AvatarData> = {
+  kind: MintVoucherKind
+  creator: string
+  data: T
+  bidShares: BidShares
+  nonce: BigNumberish
+  domain: EIP712Domain
+  sig: EIP712Signature
+}
+
+/**
+ * Receives the diagnostics emitted by a Motif client
+ */
+export type Logger = {
+  debug(message: string): void
+  info(message: string): void
+  warn(message: string): void
+  error(message: string): void
+}
+
+/**
+ * Fee fields of a transaction
+ */
+export type FeeOverrides = {
+  gasPrice?: BigNumberish
+  maxFeePerGas?: BigNumberish
+  maxPriorityFeePerGas?: BigNumberish
+}
+
+/**
+ * Chooses the fees of transactions: EIP-1559 fees, a legacy gas price for chains without EIP-1559,
+ * or a function returning the fees from the provider. Unspecified fees are fetched from the provider.
+ */
+export type FeeStrategy =
+  | {
+      type: 'eip1559'
+      maxFeePerGas?: BigNumberish
+      maxPriorityFeePerGas?: BigNumberish
+    }
+  | {
+      type: 'legacy'
+      gasPrice?: BigNumberish
+      // percentage of the provider gas price, e.g. 110 bids 10% above it
+      multiplier?: number
+    }
+  | ((provider: Provider) => Promise<FeeOverrides>)
+
+/**
+ * Controls the gas limit and fees sent with transactions
+ */
+export type GasPolicy = {
+  // percentage of the gas estimate used as gas limit, e.g. 120 pads estimates by 20%.
+  // defaults to the padding of each method
+  multiplier?: number
+  // fixed gas limits by contract method name, sent without estimating the gas
+  gasLimits?: { [method: string]: BigNumberish }
+  // defaults to the fees chosen by ethers
+  fees?: FeeStrategy
+}
+
+/**
+ * Controls which token and metadata URIs are accepted when writing to the asset contracts
+ */
+export type URIPolicy = {
+  // accepted URI schemes without `://`, e.g. `https` or `ipfs`
+  protocols: Array<string>
+}
+
+/**
+ * Controls how read calls are batched into Multicall requests
+ */
+export type MulticallOptions = {
+  // calls per Multicall request
+  batchSize: number
+  // milliseconds to wait for more calls before sending a batch
+  wait: number
+}
+
+/**
+ * Storage of the read-through cache, e.g. an in-memory LRU or a shared Redis. Adapters storing
+ * outside of the process serialize the values themselves, they can hold BigNumbers.
+ */
+export interface CacheAdapter {
+  get(key: string): unknown | Promise<unknown>
+  // ttl in milliseconds, entries without ttl never expire
+  set(key: string, value: unknown, ttl?: number): void | Promise<void>
+  delete(key: string): void | Promise<void>
+}
+
+/**
+ * Controls the caching of the on-chain fields read by the assets
+ */
+export type CachePolicy = {
+  // defaults to an in-memory LRU per asset
+  adapter: CacheAdapter
+  // milliseconds the mutable fields, e.g. owners, asks and uris, stay cached, 0 never caches them
+  ttl: number
+}
+
+/**
+ * Configuration shared by every asset and listing of a Motif client
+ */
+export type MotifConfig = {
+  gasPolicy: GasPolicy
+  uriPolicy: URIPolicy
+  // timeout in seconds used when fetching uris to verify their hashes
+  timeout: number
+  logger: Logger
+  // simulate every transaction with `callStatic` before sending it
+  simulate: boolean
+  // batches the read calls of the client through the Multicall contract of the network, false
+  // sends every call on its own
+  multicall: Partial<MulticallOptions> | false
+  // caches the immutable fields of tokens, e.g. content hashes and creators, and the mutable ones
+  // for the ttl of the policy, false reads every field from the contracts
+  cache: Partial<CachePolicy> | false
+}
+
+/**
+ * Per call options of the methods that send a transaction
+ */
+export type TransactionOptions = {
+  // simulates the call with `callStatic` and throws its decoded revert before sending the
+  // transaction, defaults to the `simulate` setting of the configuration
+  simulate?: boolean
+  // gas limit, fees, nonce, ... of the transaction, taking precedence over the gas policy
+  overrides?: Overrides
+}
+
+/**
+ * Options of the transactions paying a bid or a purchase
+ */
+export type PaymentOptions = TransactionOptions & {
+  // checks the balance and allowance of the payer before sending, true by default
+  checkFunds?: boolean
+  // approves the missing allowance of the exact amount or of the maximum amount
+  approve?: 'exact' | 'unlimited' | false
+  // wraps the missing balance from the native currency when paying in the WETH of the network
+  wrap?: boolean
+  // confirmations to wait for the approval
+  confirmations?: number
+}
+
+/**
+ * Balance and allowance of a payer for a payment, the allowance is null for the native currency
+ */
+export type FundsCheck = {
+  currency: string
+  owner: string
+  spender: string
+  amount: BigNumber
+  balance: BigNumber
+  allowance: BigNumber | null
+  wrapping?: ContractTransaction
+  approval?: ContractTransaction
+}
+
+/**
+ * Removal of a bid and the unwrapping of its WETH refund, when the bid was in WETH
+ */
+export type BidUnwrapResult = {
+  removal: ContractTransaction
+  unwrapping?: ContractTransaction
+}
+
+/**
+ * Contracts and settings of a network the Motif sdk can connect to
+ */
+export type NetworkConfig = {
+  chainId: number
+  name: string
+  // asset, exchange and listing contract addresses, e.g. `item`, `itemExchange` and `itemListing`.
+  // assets and listings created without addresses require their keys, empty for contracts that
+  // are not deployed on the network
+  addresses: { [key: string]: string }
+  // wrapped native currency used for bids, e.g. WETH on mainnet
+  wethAddress?: string
+  explorerUrl?: string
+  // chainId to sign EIP-712 messages with when the contracts see a different one than the network
+  eip712ChainId?: number
+  // gas policy of the network, overridden by the gas policy of the client configuration
+  gasPolicy?: GasPolicy
+  // Multicall3 contract batching read calls, calls are sent one by one without it
+  multicallAddress?: string
+  // deployment blocks of the contracts by address key, where event queries start by default
+  deploymentBlocks?: { [key: string]: number }
+}
+
+/**
+ * Lifecycle status of a transaction tracked by the TransactionManager
+ */
+export type TransactionStatus =
+  // sent, not mined yet
+  | 'pending'
+  // mined with fewer confirmations than required
+  | 'mined'
+  // mined with the required confirmations
+  | 'confirmed'
+  // mined and reverted
+  | 'failed'
+  // another transaction with the same nonce was mined, e.g. a speed-up
+  | 'replaced'
+  // a cancellation with the same nonce was mined
+  | 'cancelled'
+  // no longer known to the network and its nonce still unused
+  | 'dropped'
+
+/**
+ * Transaction tracked by the TransactionManager
+ */
+export type TrackedTransaction = {
+  hash: string
+  from: string
+  nonce: number
+  // contract method that sent the transaction, e.g. `item.mint`
+  method?: string
+  status: TransactionStatus
+  response: TransactionResponse
+  receipt?: TransactionReceipt
+  // hash of the transaction with the same nonce this one replaces
+  replaces?: string
+  // hash of the transaction with the same nonce mined instead of this one, if known
+  replacedBy?: string
+}
+
+/**
+ * Settings of the TransactionManager
+ */
+export type TransactionManagerOptions = {
+  // confirmations after which a mined transaction is confirmed
+  confirmations: number
+  // ms between two checks of the pending transactions
+  pollingInterval: number
+  // ms after which a transaction the network no longer knows is dropped
+  dropTimeout: number
+  // settled transactions kept for `get` and `wait`, the oldest ones are untracked beyond it
+  maxSettled: number
+}
+
+/**
+ * Token materialized by the MotifIndexer. Amounts are decimal strings so snapshots serialize to JSON.
+ */
+export type IndexedToken = {
+  // asset key, e.g. `item` or `land`
+  asset: string
+  tokenId: string
+  owner: string
+  creator: string
+  contentURI?: string
+  metadataURI?: string
+  bidShares?: { prevOwner: string; creator: string; owner: string }
+  updatedAt: number
+}
+
+export type IndexedAsk = {
+  asset: string
+  tokenId: string
+  amount: string
+  currency: string
+  updatedAt: number
+}
+
+export type IndexedBid = {
+  asset: string
+  tokenId: string
+  bidder: string
+  recipient: string
+  amount: string
+  currency: string
+  sellOnShare: string
+  updatedAt: number
+}
+
+export type IndexedListingStatus = 'active' | 'ended' | 'canceled'
+
+export type IndexedListing = {
+  asset: string
+  listingId: string
+  tokenId: string
+  tokenContract: string
+  tokenOwner: string
+  approved: boolean
+  startsAt: string
+  duration: string
+  listPrice: string
+  listType: number
+  listCurrency: string
+  intermediary: string
+  intermediaryFeePercentage: number
+  status: IndexedListingStatus
+  highestBidder?: string
+  highestBid?: string
+  winner?: string
+  amount?: string
+  updatedAt: number
+}
+
+/**
+ * State materialized by the MotifIndexer from the events up to a block
+ */
+export type IndexerSnapshot = {
+  blockNumber: number
+  // keyed by `${asset}:${tokenId}`
+  tokens: { [key: string]: IndexedToken }
+  // keyed by `${asset}:${tokenId}`
+  asks: { [key: string]: IndexedAsk }
+  // keyed by `${asset}:${tokenId}:${bidder}`
+  bids: { [key: string]: IndexedBid }
+  // keyed by `${asset}:${listingId}`
+  listings: { [key: string]: IndexedListing }
+}
+
+/**
+ * Persistence of the MotifIndexer snapshots
+ */
+export interface IndexerStore {
+  load(): Promise<IndexerSnapshot | undefined>
+  save(snapshot: IndexerSnapshot): Promise<void>
+}
+
+export type ProvenanceEventType =
+  | 'mint'
+  | 'transfer'
+  | 'burn'
+  // bid accepted on the exchange
+  | 'sale'
+  // listing ended with a winner
+  | 'listingSale'
+  | 'contentURIUpdated'
+  | 'metadataURIUpdated'
+
+/**
+ * Entry of a token provenance timeline. Amounts are decimal strings.
+ */
+export type ProvenanceEvent = {
+  type: ProvenanceEventType
+  blockNumber: number
+  logIndex: number
+  transactionHash: string
+  timestamp: number
+  from?: string
+  to?: string
+  amount?: string
+  currency?: string
+  uri?: string
+  listingId?: string
+}
+
+/**
+ * Timeline of a token from its mint, in chain order
+ */
+export type Provenance = {
+  chainId: number
+  tokenAddress: string
+  tokenId: string
+  creator: string
+  // null once the token is burned
+  owner: string | null
+  events: Array<ProvenanceEvent>
+}
+
+/**
+ * Provenance signed by the address vouching for it
+ */
+export type ProvenanceReport = {
+  provenance: Provenance
+  signer: string
+  signature: string
+}
+
+/**
+ * Converts the amount of a bid into a unit comparable across currencies
+ */
+export type BidNormalizer = (bid: Bid) => BigNumberish | Promise<BigNumberish>
+
+/**
+ * Current bid of a bidder on a token
+ */
+export type BidBookEntry = {
+  bid: Bid
+  // amount in the unit of the normalizer, 18 decimals by default
+  normalizedAmount: BigNumber
+  // whether the owner can accept the bid with the current bid shares
+  isValid: boolean
+}
+
+/**
+ * Current bids on a token, highest normalized amount first
+ */
+export type BidBook = {
+  tokenId: BigNumber
+  bidShares: BidShares
+  bids: Array<BidBookEntry>
+  // highest valid bid
+  bestBid: BidBookEntry | null
+}
+
+/**
+ * Bid of a bidder that is still open on the exchange of an asset
+ */
+export type OpenBid = {
+  // key of the asset, e.g. `item`
+  asset: string
+  tokenId: BigNumber
+  bid: Bid
+}
+
+/**
+ * Open bids of a bidder with the currency amounts they lock in the exchanges, by currency address
+ */
+export type OpenBids = {
+  bids: Array<OpenBid>
+  lockedAmounts: { [currency: string]: BigNumber }
+}
+
+/**
+ * Outcome of the removal of one bid in a bulk removal, with the transaction or the error it failed with
+ */
+export type BidRemovalResult = {
+  asset: string
+  tokenId: BigNumber
+  transaction?: ContractTransaction
+  error?: Error
+}
+
+export type ListingPreflightOptions = {
+  // defaults to the listing contract of the asset on the network
+  listingAddress?: string
+  // currency of the listing, checked to be the native currency or a contract
+  currency?: string
+  // account creating the listing, defaults to the address of the signer
+  account?: string
+  // sends the missing approval of the token or of every token of the owner before returning
+  approve?: 'token' | 'all' | false
+  // confirmations to wait for the approval
+  confirmations?: number
+}
+
+/**
+ * Checks of a token before listing it, with the approval sent when requested. The listing can be
+ * created when there are no problems.
+ */
+export type ListingPreflight = {
+  tokenId: BigNumber
+  owner: string
+  account: string
+  listingAddress: string
+  isOwner: boolean
+  isApproved: boolean
+  isCurrencyValid: boolean
+  approval?: ContractTransaction
+  problems: Array<string>
+}
+
+/**
+ * Pagination of the token iterators of the assets
+ */
+export type TokenIteratorOptions = {
+  // tokens read per page
+  pageSize: number
+  // index calls in flight at once
+  concurrency: number
+  // reads the data, creator, ask and bid shares of each token
+  hydrate: boolean
+  // index to resume from, e.g. the index of the last token seen plus one
+  startIndex: number
+}
+
+/**
+ * Token yielded by the token iterators, with its data when hydrated
+ */
+export type EnumeratedToken<TData> = {
+  index: number
+  tokenId: BigNumber
+  data?: TData
+  creator?: string
+  ask?: Ask
+  bidShares?: BidShares
+}
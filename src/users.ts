@@ -1,4 +1,5 @@
 import axios from 'axios'
+import { InvalidArgumentError, RequestError } from './errors'
 
 const MOTIF_API_BASE_URL = 'https://motif.foundation'
 const MAX_USERS_PER_REQUEST = 100
@@ -9,10 +10,12 @@ const MAX_USERS_PER_REQUEST = 100
  */
 export async function getMotifProfiles(addresses: string[]) {
   if (addresses.length === 0) {
-    throw new Error('Empty addresses array')
+    throw new InvalidArgumentError('Empty addresses array')
   }
   if (addresses.length > MAX_USERS_PER_REQUEST) {
-    throw new Error(`Addresses array exceeds max length of ${MAX_USERS_PER_REQUEST}`)
+    throw new InvalidArgumentError(
+      `Addresses array exceeds max length of ${MAX_USERS_PER_REQUEST}`
+    )
   }
   try {
     const res = await axios.post(`${MOTIF_API_BASE_URL}/api/users`, { addresses })
@@ -29,6 +32,6 @@ export async function getMotifProfiles(addresses: string[]) {
     } else {
       msg = 'Error retrieving users'
     }
-    throw new Error(msg)
+    throw new RequestError(msg, err.response?.status)
   }
 }
@@ -1,6 +1,5 @@
 import { getAddress } from '@ethersproject/address'
 import warning from 'tiny-warning'
-import invariant from 'tiny-invariant'
 import sjcl from 'sjcl'
 import {
   Ask,
@@ -11,24 +10,43 @@ import {
   EIP712Signature,
   ItemData,
   LandData,
+  ListingArgs,
+  ListingParams,
+  MultipleListingArgs,
+  ListType,
   AvatarData,
+  ParsedLog,
   SpaceData,
 } from './types'
 import { Decimal } from './Decimal'
+import {
+  InvalidAddressError,
+  InvalidArgumentError,
+  InvalidBidSharesError,
+  InvalidURIError,
+  MotifError,
+  toContractError,
+  VerificationError,
+} from './errors'
+import { getNetworkConfig } from './networks'
 import {
   arrayify,
   BytesLike,
   hexDataLength,
   hexlify,
   isHexString,
+  joinSignature,
+  splitSignature,
 } from '@ethersproject/bytes'
-//import { recoverTypedSignature, signTypedData_v4 } from "eth-sig-util";
-//import { fromRpcSig, toRpcSig } from "ethereumjs-util";
+import { Signer, TypedDataField, TypedDataSigner } from '@ethersproject/abstract-signer'
+import { verifyTypedData } from '@ethersproject/wallet'
 import { BaseErc20Factory } from '@motif-foundation/asset/dist/typechain'
 import axios from 'axios'
 import { BigNumber, BigNumberish } from '@ethersproject/bignumber'
 import { ethers, Wallet } from 'ethers'
 import { ContractTransaction } from '@ethersproject/contracts'
+import { Interface, LogDescription } from '@ethersproject/abi'
+import { Log, Provider, TransactionReceipt } from '@ethersproject/providers'
 
 /********************
  * Type Constructors
@@ -153,8 +171,7 @@ export function validateBidShares(
   const sum = creator.value.add(owner.value).add(prevOwner.value)
 
   if (sum.toString() != decimal100.value.toString()) {
-    invariant(
-      false,
+    throw new InvalidBidSharesError(
       `The BidShares sum to ${sum.toString()}, but they must sum to ${decimal100.value.toString()}`
     )
   }
@@ -182,19 +199,22 @@ export function constructBid(
   try {
     parsedCurrency = validateAndParseAddress(currency)
   } catch (err) {
-    throw new Error(`Currency address is invalid: ${err.message}`)
+    throw new InvalidAddressError(`Currency address is invalid: ${err.message}`, currency)
   }
 
   try {
     parsedBidder = validateAndParseAddress(bidder)
   } catch (err) {
-    throw new Error(`Bidder address is invalid: ${err.message}`)
+    throw new InvalidAddressError(`Bidder address is invalid: ${err.message}`, bidder)
   }
 
   try {
     parsedRecipient = validateAndParseAddress(recipient)
   } catch (err) {
-    throw new Error(`Recipient address is invalid: ${err.message}`)
+    throw new InvalidAddressError(
+      `Recipient address is invalid: ${err.message}`,
+      recipient
+    )
   }
 
   const decimalSellOnShare = Decimal.new(parseFloat(sellOnShare.toFixed(4)))
@@ -214,19 +234,20 @@ export function validateBytes32(value: BytesLike) {
       return
     }
 
-    invariant(false, `${value} is not a 0x prefixed 32 bytes hex string`)
+    throw new InvalidArgumentError(`${value} is not a 0x prefixed 32 bytes hex string`)
   } else {
     if (hexDataLength(hexlify(value)) == 32) {
       return
     }
 
-    invariant(false, `value is not a length 32 byte array`)
+    throw new InvalidArgumentError(`value is not a length 32 byte array`)
   }
 }
 
-export function validateURI(uri: string) {
-  if (!uri.match(/^https:\/\/(.*)/)) {
-    invariant(false, `${uri} must begin with \`https://\``)
+export function validateURI(uri: string, protocols: Array<string> = ['https']) {
+  if (!protocols.some((protocol) => uri.startsWith(`${protocol}://`))) {
+    const prefixes = protocols.map((protocol) => `\`${protocol}://\``).join(' or ')
+    throw new InvalidURIError(`${uri} must begin with ${prefixes}`, uri)
   }
 }
 
@@ -236,33 +257,154 @@ export function validateAndParseAddress(address: string): string {
     warning(address === checksummedAddress, `${address} is not checksummed.`)
     return checksummedAddress
   } catch (error) {
-    invariant(false, `${address} is not a valid address.`)
+    throw new InvalidAddressError(`${address} is not a valid address.`, address)
   }
 }
 
 export function chainIdToNetworkName(chainId: number): string {
-  switch (chainId) {
-    case 7018: {
-      return 'motif'
-    }
-    case 7019: {
-      return 'motifTestnet'
-    }
-    case 3: {
-      return 'ropsten'
-    }
-    case 1: {
-      return 'mainnet'
-    }
-    case 137: {
-      return 'polygon'
-    }
-    case 56: {
-      return 'binance'
+  return getNetworkConfig(chainId).name
+}
+
+/**
+ * Values of the list types in the listing contracts
+ */
+export const LIST_TYPES: { [listType in ListType]: number } = {
+  auction: 1,
+  dropAuction: 2,
+  fixedPrice: 3,
+}
+
+/**
+ * Converts a listing described with human amounts and dates into the arguments of `createListing`
+ * @param params
+ */
+export function constructListing(params: ListingParams): ListingArgs {
+  const listType = LIST_TYPES[params.listType]
+  if (!listType) {
+    throw new InvalidArgumentError(`${params.listType} is not a valid list type`)
+  }
+
+  let listPrice: BigNumber
+  try {
+    listPrice = ethers.utils.parseUnits(params.price.toString(), params.decimals ?? 18)
+  } catch (err) {
+    throw new InvalidArgumentError(`Price ${params.price} is invalid: ${err.message}`)
+  }
+  if (listPrice.isNegative()) {
+    throw new InvalidArgumentError(`Price ${params.price} must not be negative`)
+  }
+
+  let listCurrency: string
+  let intermediary: string
+  try {
+    listCurrency = validateAndParseAddress(params.currency)
+  } catch (err) {
+    throw new InvalidAddressError(
+      `Currency address is invalid: ${err.message}`,
+      params.currency
+    )
+  }
+  try {
+    intermediary = validateAndParseAddress(params.intermediary)
+  } catch (err) {
+    throw new InvalidAddressError(
+      `Intermediary address is invalid: ${err.message}`,
+      params.intermediary
+    )
+  }
+
+  const intermediaryFeePercentage = params.intermediaryFeePercentage ?? 0
+  if (
+    !Number.isInteger(intermediaryFeePercentage) ||
+    intermediaryFeePercentage < 0 ||
+    intermediaryFeePercentage >= 100
+  ) {
+    throw new InvalidArgumentError(
+      `The intermediary fee is ${intermediaryFeePercentage}, but it must be a whole percentage below 100`
+    )
+  }
+
+  let startsAt = 0
+  if (params.startsAt) {
+    startsAt = Math.floor(params.startsAt.getTime() / 1000)
+    if (Number.isNaN(startsAt)) {
+      throw new InvalidArgumentError('startsAt is not a valid date')
     }
   }
 
-  invariant(false, `chainId ${chainId} not officially supported by the Motif`)
+  const { days = 0, hours = 0, minutes = 0, seconds = 0 } = params.duration ?? {}
+  const duration = ((days * 24 + hours) * 60 + minutes) * 60 + seconds
+  if (!Number.isInteger(duration) || duration < 0) {
+    throw new InvalidArgumentError(`Duration must be a whole number of seconds`)
+  }
+  if (params.listType != 'fixedPrice' && duration == 0) {
+    throw new InvalidArgumentError(`${params.listType} listings must have a duration`)
+  }
+
+  return {
+    startsAt: BigNumber.from(startsAt),
+    duration: BigNumber.from(duration),
+    listPrice,
+    listType,
+    intermediary,
+    intermediaryFeePercentage,
+    listCurrency,
+  }
+}
+
+/**
+ * Converts listings sharing everything but their price into the arguments of
+ * `createMultipleListings`
+ *
+ * @param params
+ * @param prices price of each token, in units of the currency
+ */
+export function constructMultipleListings(
+  params: Omit<ListingParams, 'price'>,
+  prices: Array<string | number>
+): MultipleListingArgs {
+  if (prices.length == 0) {
+    throw new InvalidArgumentError('At least one price is required')
+  }
+
+  const [{ listPrice, ...args }, ...rest] = prices.map((price) =>
+    constructListing({ ...params, price })
+  )
+  return { ...args, listPrices: [listPrice, ...rest.map((listing) => listing.listPrice)] }
+}
+
+/*********************
+ * Currency Utilities
+ *********************
+ */
+
+/**
+ * Fetches the decimals of an ERC-20 currency
+ * @param currency
+ * @param signerOrProvider
+ */
+export async function fetchCurrencyDecimals(
+  currency: string,
+  signerOrProvider: Signer | Provider
+): Promise<number> {
+  return BaseErc20Factory.connect(currency, signerOrProvider).decimals()
+}
+
+/**
+ * Scales an amount of a currency with the specified decimals to 18 decimals, so that amounts of
+ * currencies with different decimals compare
+ *
+ * @param amount
+ * @param decimals
+ */
+export function normalizeCurrencyAmount(
+  amount: BigNumberish,
+  decimals: number
+): BigNumber {
+  const value = BigNumber.from(amount)
+  return decimals <= 18
+    ? value.mul(BigNumber.from(10).pow(18 - decimals))
+    : value.div(BigNumber.from(10).pow(decimals - 18))
 }
 
 /********************
@@ -278,7 +420,7 @@ export function sha256FromBuffer(buffer: Buffer): string {
 
 export function sha256FromHexString(data: string): string {
   if (!isHexString(data)) {
-    throw new Error(`${data} is not valid 0x prefixed hex`)
+    throw new InvalidArgumentError(`${data} is not valid 0x prefixed hex`)
   }
 
   const bitArray = sjcl.codec.hex.toBits(data)
@@ -290,220 +432,200 @@ export function stripHexPrefix(hex: string) {
   return hex.slice(0, 2) == '0x' ? hex.slice(2) : hex
 }
 
+/*********************
+ * Receipt Utilities
+ *********************
+ */
+
+/**
+ * Decodes the logs emitted by the contract at the specified address, skipping the logs of other
+ * contracts and the events missing from the interface
+ *
+ * @param logs
+ * @param contractInterface
+ * @param address
+ */
+export function parseLogs(
+  logs: Array<Log>,
+  contractInterface: Interface,
+  address: string
+): Array<ParsedLog> {
+  const parsed: Array<ParsedLog> = []
+  for (const log of logs) {
+    if (log.address.toLowerCase() != address.toLowerCase()) {
+      continue
+    }
+
+    try {
+      parsed.push({ log, description: contractInterface.parseLog(log) })
+    } catch (err) {
+      // not an event of the contract interface
+    }
+  }
+  return parsed
+}
+
+/**
+ * Decodes the logs of a receipt emitted by the contract at the specified address, skipping the
+ * logs of other contracts and the events missing from the interface
+ *
+ * @param receipt
+ * @param contractInterface
+ * @param address
+ */
+export function parseReceiptLogs(
+  receipt: TransactionReceipt,
+  contractInterface: Interface,
+  address: string
+): Array<LogDescription> {
+  return parseLogs(receipt.logs, contractInterface, address).map(
+    ({ description }) => description
+  )
+}
+
 /*********************
  * EIP-712 Utilities
  *********************
  */
-/*
+const PERMIT_TYPES = {
+  Permit: [
+    { name: 'spender', type: 'address' },
+    { name: 'tokenId', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+}
+
+// works with any Signer that implements `_signTypedData` (Wallet, JsonRpcSigner, ...)
+async function signTypedData(
+  signer: Signer,
+  domain: EIP712Domain,
+  types: Record<string, Array<TypedDataField>>,
+  value: Record<string, any>,
+  deadline: BigNumberish
+): Promise<EIP712Signature> {
+  const typedDataSigner = signer as Signer & TypedDataSigner
+  if (typeof typedDataSigner._signTypedData !== 'function') {
+    throw new InvalidArgumentError('signer does not support EIP-712 typed data signing')
+  }
+
+  const sig = await typedDataSigner._signTypedData(domain, types, value)
+  const { r, s, v } = splitSignature(sig)
+
+  return {
+    r: r,
+    s: s,
+    v: v,
+    deadline: deadline.toString(),
+  }
+}
+
 export async function signPermitMessage(
-  owner: Wallet,
+  owner: Signer,
   toAddress: string,
-  itemId: number,
-  nonce: number,
-  deadline: number,
+  tokenId: BigNumberish,
+  nonce: BigNumberish,
+  deadline: BigNumberish,
   domain: EIP712Domain
 ): Promise<EIP712Signature> {
-  const tokenId = itemId;
-
-  return new Promise<EIP712Signature>(async (res, reject) => {
-    try {
-      const sig = signTypedData_v4(
-        Buffer.from(owner.privateKey.slice(2), "hex"),
-        {
-          data: {
-            types: {
-              EIP712Domain: [
-                { name: "name", type: "string" },
-                { name: "version", type: "string" },
-                { name: "chainId", type: "uint256" },
-                { name: "verifyingContract", type: "address" },
-              ],
-              Permit: [
-                { name: "spender", type: "address" },
-                { name: "tokenId", type: "uint256" },
-                { name: "nonce", type: "uint256" },
-                { name: "deadline", type: "uint256" },
-              ],
-            },
-            primaryType: "Permit",
-            domain: domain,
-            message: {
-              spender: toAddress,
-              tokenId,
-              nonce,
-              deadline,
-            },
-          },
-        }
-      );
-
-      const response = fromRpcSig(sig);
-
-      res({
-        r: response.r,
-        s: response.s,
-        v: response.v,
-        deadline: deadline.toString(),
-      });
-    } catch (e) {
-      console.error(e);
-      reject(e);
-    }
-  });
+  return signTypedData(
+    owner,
+    domain,
+    PERMIT_TYPES,
+    {
+      spender: toAddress,
+      tokenId,
+      nonce,
+      deadline,
+    },
+    deadline
+  )
 }
 
 export async function recoverSignatureFromPermit(
   toAddress: string,
-  itemId: number,
-  nonce: number,
-  deadline: number,
+  tokenId: BigNumberish,
+  nonce: BigNumberish,
+  deadline: BigNumberish,
   domain: EIP712Domain,
   eipSig: EIP712Signature
-) {
-  const r = arrayify(eipSig.r);
-  const s = arrayify(eipSig.s);
-
-  const tokenId = itemId;
-
-  const recovered = recoverTypedSignature({
-    data: {
-      types: {
-        EIP712Domain: [
-          { name: "name", type: "string" },
-          { name: "version", type: "string" },
-          { name: "chainId", type: "uint256" },
-          { name: "verifyingContract", type: "address" },
-        ],
-        Permit: [
-          { name: "spender", type: "address" },
-          { name: "tokenId", type: "uint256" },
-          { name: "nonce", type: "uint256" },
-          { name: "deadline", type: "uint256" },
-        ],
-      },
-      primaryType: "Permit",
-      domain: domain,
-      message: {
-        spender: toAddress,
-        tokenId,
-        nonce,
-        deadline,
-      },
+): Promise<string> {
+  return verifyTypedData(
+    domain,
+    PERMIT_TYPES,
+    {
+      spender: toAddress,
+      tokenId,
+      nonce,
+      deadline,
     },
-    sig: toRpcSig(eipSig.v, Buffer.from(r), Buffer.from(s)),
-  });
-  return recovered;
+    joinSignature({ r: hexlify(eipSig.r), s: hexlify(eipSig.s), v: eipSig.v })
+  )
+}
+
+const MINT_WITH_SIG_TYPES = {
+  MintForCreatorWithSig: [
+    { name: 'contentHash', type: 'bytes32' },
+    { name: 'metadataHash', type: 'bytes32' },
+    { name: 'creatorShare', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
 }
 
 export async function recoverSignatureFromMintWithSig(
   contentHash: BytesLike,
   metadataHash: BytesLike,
   creatorShareBN: BigNumber,
-  nonce: number,
-  deadline: number,
+  nonce: BigNumberish,
+  deadline: BigNumberish,
   domain: EIP712Domain,
   eipSig: EIP712Signature
-) {
-  const r = arrayify(eipSig.r);
-  const s = arrayify(eipSig.s);
-  const creatorShare = creatorShareBN.toString();
-
-  const recovered = recoverTypedSignature({
-    data: {
-      types: {
-        EIP712Domain: [
-          { name: "name", type: "string" },
-          { name: "version", type: "string" },
-          { name: "chainId", type: "uint256" },
-          { name: "verifyingContract", type: "address" },
-        ],
-        MintForCreatorWithSig: [
-          { name: "contentHash", type: "bytes32" },
-          { name: "metadataHash", type: "bytes32" },
-          { name: "creatorShare", type: "uint256" },
-          { name: "nonce", type: "uint256" },
-          { name: "deadline", type: "uint256" },
-        ],
-      },
-      primaryType: "MintForCreatorWithSig",
-      domain: domain,
-      message: {
-        contentHash,
-        metadataHash,
-        creatorShare,
-        nonce,
-        deadline,
-      },
+): Promise<string> {
+  return verifyTypedData(
+    domain,
+    MINT_WITH_SIG_TYPES,
+    {
+      contentHash,
+      metadataHash,
+      creatorShare: creatorShareBN.toString(),
+      nonce,
+      deadline,
     },
-    sig: toRpcSig(eipSig.v, Buffer.from(r), Buffer.from(s)),
-  });
-  return recovered;
+    joinSignature({ r: hexlify(eipSig.r), s: hexlify(eipSig.s), v: eipSig.v })
+  )
 }
 
 export async function signMintWithSigMessage(
-  owner: Wallet,
+  owner: Signer,
   contentHash: BytesLike,
   metadataHash: BytesLike,
   creatorShareBN: BigNumber,
-  nonce: number,
-  deadline: number,
+  nonce: BigNumberish,
+  deadline: BigNumberish,
   domain: EIP712Domain
 ): Promise<EIP712Signature> {
   try {
-    validateBytes32(contentHash);
-    validateBytes32(metadataHash);
+    validateBytes32(contentHash)
+    validateBytes32(metadataHash)
   } catch (err) {
-    return Promise.reject(err.message);
+    return Promise.reject(err)
   }
 
-  const creatorShare = creatorShareBN.toString();
-
-  return new Promise<EIP712Signature>(async (res, reject) => {
-    try {
-      const sig = signTypedData_v4(
-        Buffer.from(owner.privateKey.slice(2), "hex"),
-        {
-          data: {
-            types: {
-              EIP712Domain: [
-                { name: "name", type: "string" },
-                { name: "version", type: "string" },
-                { name: "chainId", type: "uint256" },
-                { name: "verifyingContract", type: "address" },
-              ],
-              MintForCreatorWithSig: [
-                { name: "contentHash", type: "bytes32" },
-                { name: "metadataHash", type: "bytes32" },
-                { name: "creatorShare", type: "uint256" },
-                { name: "nonce", type: "uint256" },
-                { name: "deadline", type: "uint256" },
-              ],
-            },
-            primaryType: "MintForCreatorWithSig",
-            domain: domain,
-            message: {
-              contentHash,
-              metadataHash,
-              creatorShare,
-              nonce,
-              deadline,
-            },
-          },
-        }
-      );
-      const response = fromRpcSig(sig);
-      res({
-        r: response.r,
-        s: response.s,
-        v: response.v,
-        deadline: deadline.toString(),
-      });
-    } catch (e) {
-      console.error(e);
-      reject(e);
-    }
-  });
-}*/
+  return signTypedData(
+    owner,
+    domain,
+    MINT_WITH_SIG_TYPES,
+    {
+      contentHash,
+      metadataHash,
+      creatorShare: creatorShareBN.toString(),
+      nonce,
+      deadline,
+    },
+    deadline
+  )
+}
 
 export async function approveERC20(
   wallet: Wallet,
@@ -512,7 +634,11 @@ export async function approveERC20(
   amount: BigNumberish
 ): Promise<ContractTransaction> {
   const erc20 = BaseErc20Factory.connect(erc20Address, wallet)
-  return erc20.approve(spender, amount)
+  try {
+    return await erc20.approve(spender, amount)
+  } catch (err) {
+    throw toContractError('approve', err)
+  }
 }
 
 export async function isURIHashVerified(
@@ -532,7 +658,10 @@ export async function isURIHashVerified(
 
     return uriHash == normalizedExpectedHash
   } catch (err) {
-    return Promise.reject(err.message)
+    if (err instanceof MotifError) {
+      return Promise.reject(err)
+    }
+    return Promise.reject(new VerificationError(err.message))
   }
 }
 
@@ -619,7 +748,11 @@ export async function wrapETH(
 ): Promise<ContractTransaction> {
   const abi = ['function deposit() public payable']
   const weth = new ethers.Contract(wethAddress, abi, wallet)
-  return weth.deposit({ value: amount })
+  try {
+    return await weth.deposit({ value: amount })
+  } catch (err) {
+    throw toContractError('deposit', err)
+  }
 }
 
 export async function unwrapWETH(
@@ -629,5 +762,33 @@ export async function unwrapWETH(
 ): Promise<ContractTransaction> {
   const abi = ['function withdraw(uint256) public']
   const weth = new ethers.Contract(wethAddress, abi, wallet)
-  return weth.withdraw(amount)
+  try {
+    return await weth.withdraw(amount)
+  } catch (err) {
+    throw toContractError('withdraw', err)
+  }
+}
+
+/**
+ * Maps the items with at most `concurrency` calls in flight, keeping the order of the items
+ *
+ * @param items
+ * @param concurrency
+ * @param fn
+ */
+export async function mapWithConcurrency<T, R>(
+  items: Array<T>,
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<Array<R>> {
+  const results: Array<R> = new Array(items.length)
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker))
+  return results
 }
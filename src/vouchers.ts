@@ -0,0 +1,167 @@
+import { BigNumber } from '@ethersproject/bignumber'
+import { hexlify } from '@ethersproject/bytes'
+import { InvalidArgumentError } from './errors'
+import { defaultMotifConfig } from './config'
+import {
+  AvatarData,
+  BidShares,
+  ItemData,
+  MintVoucher,
+  MintVoucherKind,
+  URIPolicy,
+} from './types'
+import {
+  recoverSignatureFromMintWithSig,
+  validateAndParseAddress,
+  validateBidShares,
+  validateBytes32,
+  validateURI,
+} from './utils'
+
+/**
+ * Version of the JSON format produced by `serializeMintVoucher`
+ */
+export const MINT_VOUCHER_VERSION = 1
+
+const MINT_VOUCHER_KINDS: Array<MintVoucherKind> = ['item', 'avatar']
+
+/**
+ * Returns a stable JSON representation of the voucher, with every numeric value as a decimal
+ * string and every hash as 0x prefixed hex, so it can be stored and parsed back losslessly
+ * @param voucher
+ */
+export function serializeMintVoucher(voucher: MintVoucher): string {
+  const data: { [key: string]: any } = {
+    tokenURI: voucher.data.tokenURI,
+    metadataURI: voucher.data.metadataURI,
+    contentHash: hexlify(voucher.data.contentHash),
+    metadataHash: hexlify(voucher.data.metadataHash),
+  }
+  if (voucher.kind == 'avatar') {
+    data.isDefault = (voucher.data as AvatarData).isDefault
+  }
+
+  return JSON.stringify({
+    version: MINT_VOUCHER_VERSION,
+    kind: voucher.kind,
+    creator: voucher.creator,
+    data: data,
+    bidShares: {
+      creator: BigNumber.from(voucher.bidShares.creator.value).toString(),
+      owner: BigNumber.from(voucher.bidShares.owner.value).toString(),
+      prevOwner: BigNumber.from(voucher.bidShares.prevOwner.value).toString(),
+    },
+    nonce: BigNumber.from(voucher.nonce).toString(),
+    domain: {
+      name: voucher.domain.name,
+      version: voucher.domain.version,
+      chainId: voucher.domain.chainId,
+      verifyingContract: voucher.domain.verifyingContract,
+    },
+    sig: {
+      deadline: BigNumber.from(voucher.sig.deadline).toString(),
+      v: voucher.sig.v,
+      r: hexlify(voucher.sig.r),
+      s: hexlify(voucher.sig.s),
+    },
+  })
+}
+
+/**
+ * Parses and validates a voucher produced by `serializeMintVoucher`
+ * @param json
+ * @param uriPolicy protocols the uris may use, e.g. the `uriPolicy` of the configuration
+ */
+export function parseMintVoucher(
+  json: string,
+  uriPolicy: URIPolicy = defaultMotifConfig.uriPolicy
+): MintVoucher {
+  const parsed = JSON.parse(json)
+
+  if (parsed.version != MINT_VOUCHER_VERSION) {
+    throw new InvalidArgumentError(`Unsupported mint voucher version: ${parsed.version}`)
+  }
+  if (!MINT_VOUCHER_KINDS.includes(parsed.kind)) {
+    throw new InvalidArgumentError(`Unsupported mint voucher kind: ${parsed.kind}`)
+  }
+
+  validateURI(parsed.data.tokenURI, uriPolicy.protocols)
+  validateURI(parsed.data.metadataURI, uriPolicy.protocols)
+  validateBytes32(parsed.data.contentHash)
+  validateBytes32(parsed.data.metadataHash)
+
+  const itemData: ItemData = {
+    tokenURI: parsed.data.tokenURI,
+    metadataURI: parsed.data.metadataURI,
+    contentHash: parsed.data.contentHash,
+    metadataHash: parsed.data.metadataHash,
+  }
+  const data: ItemData | AvatarData =
+    parsed.kind == 'avatar'
+      ? { ...itemData, isDefault: !!parsed.data.isDefault }
+      : itemData
+
+  const bidShares: BidShares = {
+    creator: { value: BigNumber.from(parsed.bidShares.creator) },
+    owner: { value: BigNumber.from(parsed.bidShares.owner) },
+    prevOwner: { value: BigNumber.from(parsed.bidShares.prevOwner) },
+  }
+  validateBidShares(bidShares.creator, bidShares.owner, bidShares.prevOwner)
+
+  return {
+    kind: parsed.kind,
+    creator: validateAndParseAddress(parsed.creator),
+    data: data,
+    bidShares: bidShares,
+    nonce: BigNumber.from(parsed.nonce),
+    domain: {
+      name: parsed.domain.name,
+      version: parsed.domain.version,
+      chainId: parsed.domain.chainId,
+      verifyingContract: validateAndParseAddress(parsed.domain.verifyingContract),
+    },
+    sig: {
+      deadline: BigNumber.from(parsed.sig.deadline),
+      v: parsed.sig.v,
+      r: parsed.sig.r,
+      s: parsed.sig.s,
+    },
+  }
+}
+
+/**
+ * Recovers the address that signed the voucher
+ * @param voucher
+ */
+export async function recoverMintVoucherSigner(voucher: MintVoucher): Promise<string> {
+  return recoverSignatureFromMintWithSig(
+    voucher.data.contentHash,
+    voucher.data.metadataHash,
+    BigNumber.from(voucher.bidShares.creator.value),
+    voucher.nonce,
+    voucher.sig.deadline,
+    voucher.domain,
+    voucher.sig
+  )
+}
+
+/**
+ * Checks that the voucher was signed by its creator
+ * @param voucher
+ */
+export async function isMintVoucherVerified(voucher: MintVoucher): Promise<boolean> {
+  const recovered = await recoverMintVoucherSigner(voucher)
+  return recovered.toLowerCase() == voucher.creator.toLowerCase()
+}
+
+/**
+ * Returns true if the voucher deadline has passed
+ * @param voucher
+ * @param timestamp unix seconds to compare against, defaults to now
+ */
+export function isMintVoucherExpired(
+  voucher: MintVoucher,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): boolean {
+  return BigNumber.from(voucher.sig.deadline).lte(timestamp)
+}
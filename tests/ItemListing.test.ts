@@ -0,0 +1,421 @@
+import {
+  constructListing,
+  ContractRevertError,
+  deriveListingStatus,
+  InvalidArgumentError,
+  ItemListing,
+} from '../src'
+import { Wallet } from '@ethersproject/wallet'
+import { Interface } from '@ethersproject/abi'
+import { BigNumber } from '@ethersproject/bignumber'
+import { AddressZero } from '@ethersproject/constants'
+
+describe('ItemListing', () => {
+  const itemAddress = '0x1dC4c1cEFEF38a777b15aA20260a54E584b16C48'
+  const itemListingAddress = '0x1D7022f5B17d2F8B695918FB48fa1089C9f85401'
+  const revertData =
+    '0x08c379a0' +
+    '0000000000000000000000000000000000000000000000000000000000000020' +
+    '0000000000000000000000000000000000000000000000000000000000000010' +
+    '4c697374696e6720686173206269647300000000000000000000000000000000'
+
+  let listing: ItemListing
+  let fakeContract: any
+
+  beforeEach(() => {
+    listing = new ItemListing(Wallet.createRandom(), 50, itemAddress, itemListingAddress)
+    fakeContract = {
+      interface: listing.listing.interface,
+      callStatic: {
+        cancelListing: jest
+          .fn()
+          .mockRejectedValue({ code: 'CALL_EXCEPTION', data: revertData }),
+      },
+      cancelListing: jest.fn().mockResolvedValue({ hash: '0x01' }),
+    }
+    listing.listing = fakeContract
+  })
+
+  describe('simulation', () => {
+    it('throws the decoded revert before sending the transaction', async () => {
+      const promise = listing.cancelListing(1, { simulate: true })
+
+      await expect(promise).rejects.toBeInstanceOf(ContractRevertError)
+      await expect(promise).rejects.toThrow('cancelListing reverted: Listing has bids')
+      expect(fakeContract.cancelListing).not.toHaveBeenCalled()
+    })
+
+    it('follows the simulate setting of the configuration by default', async () => {
+      const simulating = new ItemListing(
+        Wallet.createRandom(),
+        50,
+        itemAddress,
+        itemListingAddress,
+        { ...listing.motifConfig, simulate: true }
+      )
+      simulating.listing = fakeContract
+
+      await expect(simulating.cancelListing(1)).rejects.toThrow(
+        'cancelListing reverted: Listing has bids'
+      )
+      expect(fakeContract.cancelListing).not.toHaveBeenCalled()
+    })
+
+    it('sends the transaction without simulating it by default', async () => {
+      const tx = await listing.cancelListing(1)
+
+      expect(tx).toEqual({ hash: '0x01' })
+      expect(fakeContract.callStatic.cancelListing).not.toHaveBeenCalled()
+      expect(fakeContract.cancelListing).toHaveBeenCalledWith(1, {})
+    })
+  })
+  describe('gas policy', () => {
+    it('sends the fixed gas limit of the configuration', async () => {
+      const configured = new ItemListing(
+        Wallet.createRandom(),
+        50,
+        itemAddress,
+        itemListingAddress,
+        { ...listing.motifConfig, gasPolicy: { gasLimits: { cancelListing: 90000 } } }
+      )
+      configured.listing = fakeContract
+
+      await configured.cancelListing(1)
+      expect(fakeContract.cancelListing).toHaveBeenCalledWith(1, { gasLimit: 90000 })
+    })
+
+    it('lets the overrides of the call take precedence', async () => {
+      await listing.cancelListing(1, { overrides: { gasLimit: 50000, nonce: 3 } })
+      expect(fakeContract.cancelListing).toHaveBeenCalledWith(1, {
+        gasLimit: 50000,
+        nonce: 3,
+      })
+    })
+  })
+  describe('receipt decoding', () => {
+    const owner = '0x0000000000000000000000000000000000000002'
+    const erc20Interface = new Interface([
+      'event Approval(address indexed owner, address indexed spender, uint256 value)',
+    ])
+
+    let decoding: ItemListing
+
+    function listingLog(name: string, args: Array<any>, logIndex: number) {
+      const iface: Interface = decoding.listing.interface
+      return {
+        address: itemListingAddress,
+        transactionHash: '0x01',
+        blockNumber: 10,
+        logIndex,
+        ...iface.encodeEventLog(iface.getEvent(name), args),
+      }
+    }
+
+    function created(listingId: number, logIndex: number) {
+      return listingLog(
+        'ListingCreated',
+        [listingId, 1, itemAddress, 0, 86400, 100, 1, owner, AddressZero, 0, AddressZero],
+        logIndex
+      )
+    }
+
+    beforeEach(() => {
+      decoding = new ItemListing(
+        Wallet.createRandom(),
+        50,
+        itemAddress,
+        itemListingAddress
+      )
+    })
+
+    it('decodes the listing events and skips the logs of other contracts', () => {
+      const receipt: any = {
+        logs: [
+          {
+            address: itemAddress,
+            ...erc20Interface.encodeEventLog(erc20Interface.getEvent('Approval'), [
+              owner,
+              itemListingAddress,
+              5,
+            ]),
+          },
+          created(3, 1),
+          listingLog('ListingBid', [3, 1, itemAddress, owner, 120, true, false], 2),
+        ],
+      }
+
+      const events = decoding.decodeListingEvents(receipt)
+
+      expect(events.map((event) => event.name)).toEqual(['ListingCreated', 'ListingBid'])
+      const [listingCreated, bid] = events
+      expect(listingCreated).toMatchObject({
+        listingId: BigNumber.from(3),
+        tokenContract: itemAddress,
+        listType: 1,
+        tokenOwner: owner,
+        transactionHash: '0x01',
+        blockNumber: 10,
+        logIndex: 1,
+      })
+      expect(bid).toMatchObject({
+        sender: owner,
+        value: BigNumber.from(120),
+        firstBid: true,
+      })
+    })
+
+    it('fetches every listing created in the transaction', async () => {
+      const fetchListing = jest
+        .spyOn(decoding, 'fetchListing')
+        .mockImplementation(async (listingId) => {
+          const listing: any = { listingId }
+          return listing
+        })
+      const receipt: any = { logs: [created(3, 0), created(4, 1)] }
+      const emptyReceipt: any = { logs: [] }
+
+      const listings = await decoding.fetchListingsFromTransactionReceipt(receipt)
+
+      expect(listings).toHaveLength(2)
+      expect(fetchListing.mock.calls.map(([id]) => id.toString())).toEqual(['3', '4'])
+      expect(await decoding.fetchListingFromTransactionReceipt(receipt)).toEqual({
+        listingId: BigNumber.from(3),
+      })
+      expect(await decoding.fetchListingFromTransactionReceipt(emptyReceipt)).toBe(null)
+    })
+  })
+
+  describe('listing status', () => {
+    const bidder = '0x0000000000000000000000000000000000000003'
+
+    function list(fields: any = {}) {
+      return {
+        approved: true,
+        amount: BigNumber.from(0),
+        startsAt: BigNumber.from(1000),
+        duration: BigNumber.from(600),
+        firstBidTime: BigNumber.from(0),
+        listPrice: BigNumber.from(100),
+        listType: 1,
+        intermediaryFeePercentage: 0,
+        tokenOwner: '0x0000000000000000000000000000000000000002',
+        bidder: AddressZero,
+        intermediary: AddressZero,
+        listCurrency: AddressZero,
+        ...fields,
+      }
+    }
+
+    const bidding = {
+      firstBidTime: BigNumber.from(2000),
+      bidder,
+      amount: BigNumber.from(150),
+    }
+
+    it.each([
+      ['pendingApproval', list({ approved: false }), 1500],
+      ['scheduled', list(), 500],
+      ['live', list(), 1500],
+      ['inAuction', list(bidding), 2500],
+      ['ended', list(bidding), 2600],
+      ['settled', list({ tokenOwner: AddressZero }), 1500],
+    ])('derives the %s state', (state, listed, timestamp) => {
+      expect(deriveListingStatus(1, listed, timestamp).state).toBe(state)
+    })
+
+    it('derives the end time, time remaining and highest bid of auctions', () => {
+      const status = deriveListingStatus(1, list(bidding), 2450)
+
+      expect(status.endsAt).toBe(2600)
+      expect(status.timeRemaining).toBe(150)
+      expect(status.highestBid).toEqual({ bidder, amount: BigNumber.from(150) })
+      expect(status.canEndListing).toBe(false)
+      expect(deriveListingStatus(1, list(bidding), 2700).canEndListing).toBe(true)
+    })
+
+    it('has no end time before the first bid', () => {
+      const status = deriveListingStatus(1, list(), 1500)
+
+      expect(status.endsAt).toBeNull()
+      expect(status.timeRemaining).toBeNull()
+      expect(status.highestBid).toBeNull()
+    })
+
+    it('derives the status at the latest block by default', async () => {
+      fakeContract.listings = jest.fn().mockResolvedValue(list(bidding))
+      fakeContract.provider = {
+        getBlock: jest.fn().mockResolvedValue({ timestamp: 2700 }),
+      }
+
+      const status = await listing.fetchListingStatus(1)
+
+      expect(fakeContract.provider.getBlock).toHaveBeenCalledWith('latest')
+      expect(status.listingId).toEqual(BigNumber.from(1))
+      expect(status.state).toBe('ended')
+      expect(status.canEndListing).toBe(true)
+    })
+  })
+
+  describe('typed listings', () => {
+    const intermediary = '0x0000000000000000000000000000000000000004'
+    const currency = '0x0000000000000000000000000000000000000005'
+
+    it('converts human amounts, dates and durations', () => {
+      const args = constructListing({
+        listType: 'auction',
+        price: '1.5',
+        currency,
+        decimals: 6,
+        startsAt: new Date('2030-01-01T00:00:00Z'),
+        duration: { days: 1, hours: 2 },
+        intermediary,
+        intermediaryFeePercentage: 5,
+      })
+
+      expect(args).toEqual({
+        startsAt: BigNumber.from(1893456000),
+        duration: BigNumber.from(93600),
+        listPrice: BigNumber.from(1500000),
+        listType: 1,
+        intermediary,
+        intermediaryFeePercentage: 5,
+        listCurrency: currency,
+      })
+    })
+
+    it('starts fixed price listings once approved by default', () => {
+      const args = constructListing({
+        listType: 'fixedPrice',
+        price: 2,
+        currency: AddressZero,
+        intermediary,
+      })
+
+      expect(args.startsAt).toEqual(BigNumber.from(0))
+      expect(args.duration).toEqual(BigNumber.from(0))
+      expect(args.listPrice).toEqual(BigNumber.from(10).pow(18).mul(2))
+      expect(args.listType).toBe(3)
+      expect(args.intermediaryFeePercentage).toBe(0)
+    })
+
+    it.each([
+      [{ intermediaryFeePercentage: 100 }, 'whole percentage below 100'],
+      [{ intermediaryFeePercentage: 2.5 }, 'whole percentage below 100'],
+      [{ price: '-1' }, 'must not be negative'],
+      [{ price: '0.0000001', decimals: 6 }, 'is invalid'],
+      [{ listType: 'lottery' }, 'not a valid list type'],
+      [{ duration: {} }, 'must have a duration'],
+      [{ startsAt: new Date('invalid') }, 'not a valid date'],
+    ])('rejects %p', (fields: any, message) => {
+      const params = {
+        listType: 'auction' as const,
+        price: 1,
+        currency,
+        duration: { hours: 1 },
+        intermediary,
+        ...fields,
+      }
+      expect(() => constructListing(params)).toThrow(InvalidArgumentError)
+      expect(() => constructListing(params)).toThrow(message)
+    })
+
+    it('creates listings from typed parameters', async () => {
+      fakeContract.createListing = jest.fn().mockResolvedValue({ hash: '0x02' })
+
+      await listing.createListingFromParams(7, {
+        listType: 'dropAuction',
+        price: '0.25',
+        currency: AddressZero,
+        duration: { minutes: 30 },
+        intermediary,
+        intermediaryFeePercentage: 10,
+      })
+
+      expect(fakeContract.createListing).toHaveBeenCalledWith(
+        7,
+        itemAddress,
+        BigNumber.from(0),
+        BigNumber.from(1800),
+        BigNumber.from(10).pow(17).mul(25).div(10),
+        2,
+        intermediary,
+        10,
+        AddressZero,
+        {}
+      )
+    })
+
+    it('creates multiple listings with a price per token', async () => {
+      fakeContract.createMultipleListings = jest.fn().mockResolvedValue({ hash: '0x03' })
+      fakeContract.estimateGas = {
+        createMultipleListings: jest.fn().mockResolvedValue(BigNumber.from(100000)),
+      }
+
+      await listing.createMultipleListingsFromParams(
+        [1, 2],
+        { listType: 'fixedPrice', currency, decimals: 2, intermediary },
+        ['1', '2.5']
+      )
+
+      const [tokenIds, , , , listPrices, listType] =
+        fakeContract.createMultipleListings.mock.calls[0]
+      expect(tokenIds).toEqual([1, 2])
+      expect(listPrices).toEqual([BigNumber.from(100), BigNumber.from(250)])
+      expect(listType).toBe(3)
+    })
+
+    it('rejects a price count differing from the token count', async () => {
+      await expect(
+        listing.createMultipleListingsFromParams(
+          [1, 2],
+          { listType: 'fixedPrice', currency, decimals: 2, intermediary },
+          ['1']
+        )
+      ).rejects.toThrow('2 tokens were listed with 1 prices')
+    })
+  })
+
+  describe('payments', () => {
+    const currency = '0x0000000000000000000000000000000000000005'
+
+    beforeEach(() => {
+      fakeContract.address = itemListingAddress
+      fakeContract.listings = jest.fn().mockResolvedValue({ listCurrency: currency })
+      fakeContract.createBid = jest.fn().mockResolvedValue({ hash: '0x04' })
+    })
+
+    it('checks the allowance of the listing contract before bidding', async () => {
+      const ensure = jest.fn().mockRejectedValue(new Error('insufficient allowance'))
+      listing.allowances.ensure = ensure
+
+      await expect(listing.createBid(1, 50, { approve: 'exact' })).rejects.toThrow(
+        'insufficient allowance'
+      )
+      expect(ensure).toHaveBeenCalledWith('createBid', currency, itemListingAddress, 50, {
+        approve: 'exact',
+      })
+      expect(fakeContract.createBid).not.toHaveBeenCalled()
+    })
+
+    it('keeps one allowance manager following the signer of the listing', () => {
+      const allowances = listing.allowances
+      const signer = Wallet.createRandom()
+      fakeContract.connect = jest.fn(() => fakeContract)
+
+      listing.connect(signer)
+
+      expect(listing.allowances).toBe(allowances)
+      expect(allowances.signerOrProvider).toBe(signer)
+    })
+
+    it('skips the check when asked to', async () => {
+      const ensure = jest.fn()
+      listing.allowances.ensure = ensure
+
+      await listing.createBid(1, 50, { checkFunds: false })
+
+      expect(ensure).not.toHaveBeenCalled()
+      expect(fakeContract.createBid).toHaveBeenCalledWith(1, 50, {})
+    })
+  })
+})
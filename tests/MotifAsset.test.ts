@@ -0,0 +1,575 @@
+import { Interface } from '@ethersproject/abi'
+import { BigNumber } from '@ethersproject/bignumber'
+import { AddressZero } from '@ethersproject/constants'
+import { Wallet } from '@ethersproject/wallet'
+import { JsonRpcProvider } from '@ethersproject/providers'
+import {
+  constructBid,
+  constructBidShares,
+  constructItemData,
+  MotifError,
+  MotifItem,
+  registerNetwork,
+  sha256FromBuffer,
+} from '../src'
+
+describe('MotifAsset', () => {
+  const itemAddress = '0x1dC4c1cEFEF38a777b15aA20260a54E584b16C48'
+  const itemExchangeAddress = '0x1D7022f5B17d2F8B695918FB48fa1089C9f85401'
+  const tokenInterface = new Interface([
+    'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+    'event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)',
+  ])
+  const erc20Interface = new Interface([
+    'event Approval(address indexed owner, address indexed spender, uint256 value)',
+  ])
+  const data = constructItemData(
+    'https://example.com',
+    'https://metadata.com',
+    sha256FromBuffer(Buffer.from('some content')),
+    sha256FromBuffer(Buffer.from('some metadata'))
+  )
+  const bidShares = constructBidShares(10, 90, 0)
+
+  let wallet: Wallet
+  let item: MotifItem
+  let fakeToken: any
+
+  function transferLog(from: string, to: string, tokenId: number, address = itemAddress) {
+    return {
+      address,
+      ...tokenInterface.encodeEventLog(tokenInterface.getEvent('Transfer'), [
+        from,
+        to,
+        tokenId,
+      ]),
+    }
+  }
+
+  function receipt(logs: Array<any>): any {
+    return { transactionHash: '0x01', logs }
+  }
+
+  beforeEach(() => {
+    wallet = Wallet.createRandom()
+    item = new MotifItem(wallet, 50, itemAddress, itemExchangeAddress)
+    fakeToken = {
+      interface: tokenInterface,
+      ownerOf: jest.fn().mockResolvedValue(wallet.address),
+      tokenCreators: jest.fn().mockResolvedValue(wallet.address),
+      tokenURI: jest.fn().mockResolvedValue(data.tokenURI),
+      tokenMetadataURI: jest.fn().mockResolvedValue(data.metadataURI),
+      tokenContentHashes: jest.fn().mockResolvedValue(data.contentHash),
+      tokenMetadataHashes: jest.fn().mockResolvedValue(data.metadataHash),
+    }
+    item.token = fakeToken
+  })
+
+  describe('decodeMintedTokenIds', () => {
+    it('decodes the transfers from the zero address of the asset contract only', () => {
+      const otherToken = '0x0000000000000000000000000000000000000001'
+      const ids = item.decodeMintedTokenIds(
+        receipt([
+          {
+            address: otherToken,
+            ...erc20Interface.encodeEventLog(erc20Interface.getEvent('Approval'), [
+              wallet.address,
+              itemAddress,
+              5,
+            ]),
+          },
+          transferLog(AddressZero, wallet.address, 1, otherToken),
+          transferLog(AddressZero, wallet.address, 2),
+          transferLog(wallet.address, itemAddress, 3),
+          transferLog(AddressZero, wallet.address, 4),
+        ])
+      )
+
+      expect(ids.map((id) => id.toNumber())).toEqual([2, 4])
+    })
+  })
+
+  describe('mintAndWait', () => {
+    it('returns the minted token read back from the contract', async () => {
+      const wait = jest
+        .fn()
+        .mockResolvedValue(receipt([transferLog(AddressZero, wallet.address, 7)]))
+      fakeToken.estimateGas = {
+        mint: jest.fn().mockResolvedValue(BigNumber.from(100000)),
+      }
+      fakeToken.mint = jest.fn().mockResolvedValue({ hash: '0x01', wait })
+
+      const result = await item.mintAndWait(data, bidShares, {}, 2)
+
+      expect(wait).toHaveBeenCalledWith(2)
+      expect(result.tokenId.toNumber()).toBe(7)
+      expect(result.owner).toBe(wallet.address)
+      expect(result.creator).toBe(wallet.address)
+      expect(result.data).toEqual(data)
+    })
+
+    it('returns every token minted by mintMultiple', async () => {
+      const wait = jest
+        .fn()
+        .mockResolvedValue(
+          receipt([
+            transferLog(AddressZero, wallet.address, 7),
+            transferLog(AddressZero, wallet.address, 8),
+          ])
+        )
+      fakeToken.estimateGas = {
+        mintMultiple: jest.fn().mockResolvedValue(BigNumber.from(100000)),
+      }
+      fakeToken.mintMultiple = jest.fn().mockResolvedValue({ hash: '0x01', wait })
+
+      const results = await item.mintMultipleAndWait([data, data], [bidShares, bidShares])
+
+      expect(results.map((result) => result.tokenId.toNumber())).toEqual([7, 8])
+    })
+
+    it('throws when the transaction minted no token', async () => {
+      const wait = jest.fn().mockResolvedValue(receipt([]))
+      fakeToken.estimateGas = {
+        mint: jest.fn().mockResolvedValue(BigNumber.from(100000)),
+      }
+      fakeToken.mint = jest.fn().mockResolvedValue({ hash: '0x01', wait })
+
+      const promise = item.mintAndWait(data, bidShares)
+      await expect(promise).rejects.toBeInstanceOf(MotifError)
+      await expect(promise).rejects.toThrow(
+        'mintAndWait: transaction 0x01 did not mint any token'
+      )
+    })
+  })
+
+  describe('fetchProvenance', () => {
+    const tokenId = BigNumber.from(1)
+    const owner = '0x0000000000000000000000000000000000000003'
+
+    function location(blockNumber: number) {
+      return {
+        blockNumber,
+        logIndex: 0,
+        transactionHash: `0x0${blockNumber}`,
+        timestamp: 0,
+      }
+    }
+
+    function listingEnded(tokenContract: string, blockNumber: number) {
+      return {
+        name: 'ListingEnded',
+        listingId: BigNumber.from(blockNumber),
+        tokenId,
+        tokenContract,
+        tokenOwner: wallet.address,
+        intermediary: AddressZero,
+        winner: owner,
+        amount: BigNumber.from(100),
+        intermediaryFee: BigNumber.from(0),
+        listCurrency: AddressZero,
+        ...location(blockNumber),
+      }
+    }
+
+    it('assembles the timeline with the sales of the listing on this asset', async () => {
+      jest.spyOn(item, 'fetchHistory').mockResolvedValue([
+        {
+          name: 'Transfer',
+          from: AddressZero,
+          to: wallet.address,
+          tokenId,
+          ...location(1),
+        },
+        { name: 'Transfer', from: wallet.address, to: owner, tokenId, ...location(2) },
+      ])
+      fakeToken.ownerOf.mockResolvedValue(owner)
+      const listing: any = {
+        fetchEvents: jest
+          .fn()
+          .mockResolvedValue([
+            listingEnded(itemAddress.toLowerCase(), 2),
+            listingEnded('0x0000000000000000000000000000000000000001', 3),
+          ]),
+      }
+
+      const provenance = await item.fetchProvenance(1, { listing, fromBlock: 5 })
+
+      expect(listing.fetchEvents).toHaveBeenCalledWith(
+        'ListingEnded',
+        { tokenId: 1 },
+        { fromBlock: 5 }
+      )
+      expect(provenance).toMatchObject({
+        chainId: 50,
+        tokenAddress: itemAddress,
+        tokenId: '1',
+        creator: wallet.address,
+        owner,
+      })
+      expect(provenance.events.map((event) => event.type)).toEqual([
+        'mint',
+        'transfer',
+        'listingSale',
+      ])
+    })
+
+    it('has no owner once the token is burned', async () => {
+      jest.spyOn(item, 'fetchHistory').mockResolvedValue([
+        {
+          name: 'Transfer',
+          from: AddressZero,
+          to: wallet.address,
+          tokenId,
+          ...location(1),
+        },
+        {
+          name: 'Transfer',
+          from: wallet.address,
+          to: AddressZero,
+          tokenId,
+          ...location(2),
+        },
+      ])
+      fakeToken.tokenCreators.mockResolvedValue(AddressZero)
+
+      const provenance = await item.fetchProvenance(1)
+
+      expect(fakeToken.ownerOf).not.toHaveBeenCalled()
+      expect(provenance.owner).toBeNull()
+      expect(provenance.creator).toBe(wallet.address)
+    })
+  })
+
+  describe('fetchBidBook', () => {
+    const exchangeInterface = new Interface([
+      'event BidCreated(uint256 indexed tokenId, tuple(uint256 amount, address currency, address bidder, address recipient, tuple(uint256 value) sellOnShare) bid)',
+      'event BidRemoved(uint256 indexed tokenId, tuple(uint256 amount, address currency, address bidder, address recipient, tuple(uint256 value) sellOnShare) bid)',
+      'event BidFinalized(uint256 indexed tokenId, tuple(uint256 amount, address currency, address bidder, address recipient, tuple(uint256 value) sellOnShare) bid)',
+    ])
+    const usdc = '0x0000000000000000000000000000000000000009'
+    const weth = '0x000000000000000000000000000000000000000A'
+    const alice = '0x0000000000000000000000000000000000000002'
+    const bob = '0x0000000000000000000000000000000000000003'
+    const carol = '0x0000000000000000000000000000000000000004'
+
+    function bid(currency: string, amount: number, bidder: string, sellOnShare = 0) {
+      return constructBid(currency, amount, bidder, bidder, sellOnShare)
+    }
+
+    function bidLog(name: string, value: any, blockNumber: number) {
+      return {
+        address: itemExchangeAddress,
+        transactionHash: '0x01',
+        blockNumber,
+        logIndex: 0,
+        ...exchangeInterface.encodeEventLog(exchangeInterface.getEvent(name), [1, value]),
+      }
+    }
+
+    let fakeExchange: any
+
+    beforeEach(() => {
+      fakeExchange = {
+        address: itemExchangeAddress,
+        interface: exchangeInterface,
+        bidSharesForToken: jest.fn().mockResolvedValue(constructBidShares(10, 90, 0)),
+        isValidBid: jest.fn().mockResolvedValue(true),
+        bidForTokenBidder: jest.fn(),
+      }
+      item.exchange = fakeExchange
+    })
+
+    it('discovers the bidders from the bid events', async () => {
+      const getLogs = jest
+        .fn()
+        .mockResolvedValue([
+          bidLog('BidCreated', bid(usdc, 10, alice), 1),
+          bidLog('BidCreated', bid(usdc, 20, bob), 2),
+          bidLog('BidRemoved', bid(usdc, 10, alice), 3),
+          bidLog('BidFinalized', bid(usdc, 30, carol), 4),
+        ])
+      fakeExchange.provider = {
+        getLogs,
+        getBlockNumber: jest.fn().mockResolvedValue(10),
+        getBlock: jest.fn().mockResolvedValue({ timestamp: 0 }),
+      }
+
+      const bidders = await item.fetchBidders(1, { fromBlock: 0 })
+
+      expect(bidders).toEqual([alice, bob, carol])
+      expect(getLogs.mock.calls[0][0].topics[0]).toHaveLength(3)
+    })
+
+    it('sorts the current bids by normalized amount with the best valid bid', async () => {
+      jest.spyOn(item, 'fetchBidders').mockResolvedValue([alice, bob, carol])
+      const bids = {
+        [alice]: bid(usdc, 300, alice),
+        [bob]: bid(weth, 2, bob, 95),
+        [carol]: bid(usdc, 0, AddressZero),
+      }
+      fakeExchange.bidForTokenBidder.mockImplementation((tokenId, bidder) =>
+        Promise.resolve(bids[bidder])
+      )
+      // 1 weth is worth 200 usdc
+      const normalize = (bid) =>
+        BigNumber.from(bid.amount).mul(bid.currency == weth ? 200 : 1)
+
+      const book = await item.fetchBidBook(1, { normalize, fromBlock: 5 })
+
+      expect(item.fetchBidders).toHaveBeenCalledWith(1, { fromBlock: 5 })
+      expect(book.bids.map((entry) => entry.bid.bidder)).toEqual([bob, alice])
+      expect(book.bids.map((entry) => entry.normalizedAmount.toNumber())).toEqual([
+        400, 300,
+      ])
+      // the sell-on share of bob exceeds the 90% left by the creator share
+      expect(book.bids.map((entry) => entry.isValid)).toEqual([false, true])
+      expect(book.bestBid.bid.bidder).toBe(alice)
+    })
+
+    it('has no best bid when no bid is valid', async () => {
+      jest.spyOn(item, 'fetchBidders').mockResolvedValue([alice])
+      fakeExchange.bidForTokenBidder.mockResolvedValue(bid(usdc, 3, alice))
+      fakeExchange.isValidBid.mockResolvedValue(false)
+
+      const book = await item.fetchBidBook(1, { normalize: (bid) => bid.amount })
+
+      expect(book.bids).toHaveLength(1)
+      expect(book.bestBid).toBeNull()
+    })
+  })
+
+  describe('token iterators', () => {
+    const tokenIds = [11, 12, 13, 14, 15]
+
+    async function collect(iterator: AsyncGenerator<any>) {
+      const tokens = []
+      for await (const token of iterator) {
+        tokens.push(token)
+      }
+      return tokens
+    }
+
+    beforeEach(() => {
+      fakeToken.balanceOf = jest.fn().mockResolvedValue(BigNumber.from(tokenIds.length))
+      fakeToken.totalSupply = jest.fn().mockResolvedValue(BigNumber.from(tokenIds.length))
+      fakeToken.tokenOfOwnerByIndex = jest.fn((owner, index) =>
+        Promise.resolve(BigNumber.from(tokenIds[index]))
+      )
+      fakeToken.tokenByIndex = jest.fn((index) =>
+        Promise.resolve(BigNumber.from(tokenIds[index]))
+      )
+    })
+
+    it('iterates over the tokens of an owner page by page', async () => {
+      const tokens = await collect(
+        item.tokensOfOwner(wallet.address.toLowerCase(), { pageSize: 2, concurrency: 1 })
+      )
+
+      expect(tokens.map((token) => token.tokenId.toNumber())).toEqual(tokenIds)
+      expect(tokens.map((token) => token.index)).toEqual([0, 1, 2, 3, 4])
+      expect(fakeToken.balanceOf).toHaveBeenCalledWith(wallet.address)
+      expect(fakeToken.tokenOfOwnerByIndex).toHaveBeenCalledTimes(5)
+    })
+
+    it('limits the index calls in flight', async () => {
+      let inFlight = 0
+      let maxInFlight = 0
+      fakeToken.tokenByIndex = jest.fn(async (index) => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await new Promise((resolve) => setTimeout(resolve, 1))
+        inFlight--
+        return BigNumber.from(tokenIds[index])
+      })
+
+      const tokens = await collect(item.allTokens({ pageSize: 4, concurrency: 2 }))
+
+      expect(tokens.map((token) => token.tokenId.toNumber())).toEqual(tokenIds)
+      expect(maxInFlight).toBe(2)
+    })
+
+    it('resumes from the start index and stops reading once the consumer stops', async () => {
+      const iterator = item.allTokens({ startIndex: 3, pageSize: 1 })
+
+      const { value } = await iterator.next()
+      await iterator.return(undefined)
+
+      expect(value.tokenId.toNumber()).toBe(14)
+      expect(fakeToken.tokenByIndex).toHaveBeenCalledTimes(1)
+    })
+
+    it('hydrates each token', async () => {
+      const ask = { amount: BigNumber.from(100), currency: AddressZero }
+      const fakeExchange: any = {
+        currentAskForToken: jest.fn().mockResolvedValue(ask),
+        bidSharesForToken: jest.fn().mockResolvedValue(bidShares),
+      }
+      item.exchange = fakeExchange
+
+      const [token] = await collect(item.allTokens({ hydrate: true, startIndex: 4 }))
+
+      expect(token).toEqual({
+        index: 4,
+        tokenId: BigNumber.from(15),
+        data,
+        creator: wallet.address,
+        ask,
+        bidShares,
+      })
+    })
+
+    it('throws if the page size is not positive', async () => {
+      await expect(item.allTokens({ pageSize: 0 }).next()).rejects.toThrow(
+        'allTokens: pageSize and concurrency must be positive'
+      )
+    })
+  })
+
+  describe('preflightListing', () => {
+    const listingAddress = '0x0000000000000000000000000000000000000007'
+    const currency = '0x0000000000000000000000000000000000000008'
+
+    beforeEach(() => {
+      fakeToken.getApproved = jest.fn().mockResolvedValue(AddressZero)
+      fakeToken.isApprovedForAll = jest.fn().mockResolvedValue(false)
+      fakeToken.provider = { getCode: jest.fn().mockResolvedValue('0x6080') }
+    })
+
+    it('reports a token ready to list', async () => {
+      fakeToken.getApproved.mockResolvedValue(listingAddress)
+
+      const preflight = await item.preflightListing(1, { listingAddress, currency })
+
+      expect(preflight).toEqual({
+        tokenId: BigNumber.from(1),
+        owner: wallet.address,
+        account: wallet.address,
+        listingAddress,
+        isOwner: true,
+        isApproved: true,
+        isCurrencyValid: true,
+        approval: undefined,
+        problems: [],
+      })
+      expect(fakeToken.isApprovedForAll).toHaveBeenCalledWith(
+        wallet.address,
+        listingAddress
+      )
+      expect(fakeToken.provider.getCode).toHaveBeenCalledWith(currency)
+    })
+
+    it('reports the problems createListing would revert on', async () => {
+      const other = Wallet.createRandom().address
+      fakeToken.provider.getCode.mockResolvedValue('0x')
+
+      const preflight = await item.preflightListing(1, {
+        listingAddress,
+        currency,
+        account: other,
+        approve: 'token',
+      })
+
+      expect(preflight.isOwner).toBe(false)
+      expect(preflight.isApproved).toBe(false)
+      expect(preflight.isCurrencyValid).toBe(false)
+      expect(preflight.approval).toBeUndefined()
+      expect(preflight.problems).toEqual([
+        `${other} does not own token 1 owned by ${wallet.address}`,
+        `${listingAddress} is not approved to transfer token 1`,
+        `${currency} is not a currency contract`,
+      ])
+    })
+
+    it('sends the missing approval when requested', async () => {
+      const wait = jest.fn().mockResolvedValue({})
+      fakeToken.setApprovalForAll = jest.fn().mockResolvedValue({ hash: '0x02', wait })
+
+      const preflight = await item.preflightListing(1, {
+        listingAddress,
+        currency: AddressZero,
+        approve: 'all',
+        confirmations: 2,
+      })
+
+      expect(fakeToken.setApprovalForAll).toHaveBeenCalledWith(listingAddress, true, {})
+      expect(wait).toHaveBeenCalledWith(2)
+      expect(fakeToken.provider.getCode).not.toHaveBeenCalled()
+      expect(preflight.isApproved).toBe(true)
+      expect(preflight.approval.hash).toBe('0x02')
+      expect(preflight.problems).toEqual([])
+    })
+
+    it('requires an account for read-only instances', async () => {
+      const readOnly = new MotifItem(
+        new JsonRpcProvider(),
+        50,
+        itemAddress,
+        itemExchangeAddress
+      )
+
+      await expect(readOnly.preflightListing(1, { listingAddress })).rejects.toThrow(
+        'preflightListing: an account is required for a readOnly Motif instance'
+      )
+    })
+  })
+
+  describe('removeBidAndUnwrap', () => {
+    const weth = '0x0000000000000000000000000000000000000009'
+
+    let removal: any
+    let unwrapping: any
+    let unwrap: jest.SpyInstance
+
+    beforeAll(() => {
+      registerNetwork({
+        chainId: 1343,
+        name: 'wrapped',
+        addresses: {},
+        wethAddress: weth,
+      })
+    })
+
+    beforeEach(() => {
+      item = new MotifItem(wallet, 1343, itemAddress, itemExchangeAddress)
+      item.token = fakeToken
+      removal = { hash: '0x02', wait: jest.fn().mockResolvedValue({}) }
+      unwrapping = { hash: '0x03' }
+      unwrap = jest.spyOn(item.allowances, 'unwrap').mockResolvedValue(unwrapping)
+      fakeToken.removeBid = jest.fn().mockResolvedValue(removal)
+      fakeToken.estimateGas = {
+        removeBid: jest.fn().mockResolvedValue(BigNumber.from(100000)),
+      }
+    })
+
+    function bidIn(currency: string) {
+      const fakeExchange: any = {
+        bidForTokenBidder: jest
+          .fn()
+          .mockResolvedValue(
+            constructBid(currency, 150, wallet.address, wallet.address, 10)
+          ),
+      }
+      item.exchange = fakeExchange
+    }
+
+    it('unwraps the refund of a WETH bid once the removal is mined', async () => {
+      bidIn(weth)
+
+      const result = await item.removeBidAndUnwrap(1, { confirmations: 2 })
+
+      expect(item.exchange.bidForTokenBidder).toHaveBeenCalledWith(1, wallet.address)
+      expect(removal.wait).toHaveBeenCalledWith(2)
+      expect(unwrap).toHaveBeenCalledWith(150, 2)
+      expect(result).toEqual({ removal, unwrapping: { hash: '0x03' } })
+    })
+
+    it('only removes bids in other currencies', async () => {
+      bidIn('0x0000000000000000000000000000000000000005')
+
+      const result = await item.removeBidAndUnwrap(1)
+
+      expect(unwrap).not.toHaveBeenCalled()
+      expect(result).toEqual({ removal })
+    })
+  })
+})
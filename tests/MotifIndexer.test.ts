@@ -0,0 +1,253 @@
+import { BigNumber } from '@ethersproject/bignumber'
+import { AddressZero } from '@ethersproject/constants'
+import { mkdtempSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  JSONFileIndexerStore,
+  MemoryIndexerStore,
+  Motif,
+  MotifIndexer,
+  MotifListing,
+} from '../src'
+
+describe('MotifIndexer', () => {
+  const alice = '0x0000000000000000000000000000000000000002'
+  const bob = '0x0000000000000000000000000000000000000003'
+  const currency = '0x0000000000000000000000000000000000000004'
+  const itemAddress = '0x1dC4c1cEFEF38a777b15aA20260a54E584b16C48'
+
+  let assetEvents: Array<any>
+  let listingEvents: Array<any>
+  let hashes: { [blockNumber: number]: string }
+  let latestBlock: number
+  let provider: any
+  let indexer: MotifIndexer
+
+  function at(blockNumber: number, logIndex: number, event: any) {
+    return {
+      ...event,
+      blockNumber,
+      logIndex,
+      transactionHash: '0x01',
+      timestamp: blockNumber,
+    }
+  }
+
+  function source(events: () => Array<any>) {
+    return {
+      fetchHistory: jest.fn(async (filter, { fromBlock, toBlock }) =>
+        events().filter(
+          (event) => event.blockNumber >= fromBlock && event.blockNumber <= toBlock
+        )
+      ),
+    }
+  }
+
+  function createIndexer(store = new MemoryIndexerStore()) {
+    return new MotifIndexer(
+      provider,
+      [
+        { asset: 'item', contract: source(() => assetEvents) },
+        { asset: 'item', contract: source(() => listingEvents) },
+      ],
+      { reorgDepth: 2, store }
+    )
+  }
+
+  beforeEach(() => {
+    latestBlock = 5
+    hashes = {}
+    provider = {
+      getBlockNumber: jest.fn(async () => latestBlock),
+      getBlock: jest.fn(async (blockNumber) => ({
+        hash: hashes[blockNumber] ?? `0x${blockNumber}`,
+      })),
+      on: jest.fn(),
+      off: jest.fn(),
+    }
+    assetEvents = [
+      at(1, 0, {
+        name: 'Transfer',
+        from: AddressZero,
+        to: alice,
+        tokenId: BigNumber.from(1),
+      }),
+      at(1, 1, {
+        name: 'TokenURIUpdated',
+        tokenId: BigNumber.from(1),
+        owner: alice,
+        uri: 'https://a',
+      }),
+      at(2, 0, {
+        name: 'Transfer',
+        from: AddressZero,
+        to: alice,
+        tokenId: BigNumber.from(2),
+      }),
+      at(3, 0, {
+        name: 'AskCreated',
+        tokenId: BigNumber.from(1),
+        ask: { amount: BigNumber.from(10), currency },
+      }),
+      at(3, 1, {
+        name: 'BidCreated',
+        tokenId: BigNumber.from(1),
+        bid: {
+          amount: BigNumber.from(8),
+          currency,
+          bidder: bob,
+          recipient: bob,
+          sellOnShare: { value: BigNumber.from(0) },
+        },
+      }),
+      at(4, 0, {
+        name: 'Transfer',
+        from: alice,
+        to: AddressZero,
+        tokenId: BigNumber.from(2),
+      }),
+    ]
+    listingEvents = [
+      at(3, 2, {
+        name: 'ListingCreated',
+        listingId: BigNumber.from(7),
+        tokenId: BigNumber.from(1),
+        tokenContract: itemAddress,
+        startsAt: BigNumber.from(0),
+        duration: BigNumber.from(86400),
+        listPrice: BigNumber.from(5),
+        listType: 1,
+        tokenOwner: alice,
+        intermediary: AddressZero,
+        intermediaryFeePercentage: 0,
+        listCurrency: currency,
+      }),
+      at(5, 0, {
+        name: 'ListingBid',
+        listingId: BigNumber.from(7),
+        tokenId: BigNumber.from(1),
+        tokenContract: itemAddress,
+        sender: bob,
+        value: BigNumber.from(6),
+        firstBid: true,
+        extended: false,
+      }),
+    ]
+    indexer = createIndexer()
+  })
+
+  it('materializes tokens, asks, bids and listings from the events', async () => {
+    expect(await indexer.sync()).toBe(5)
+
+    expect(indexer.tokens()).toEqual([
+      {
+        asset: 'item',
+        tokenId: '1',
+        owner: alice,
+        creator: alice,
+        contentURI: 'https://a',
+        updatedAt: 1,
+      },
+    ])
+    expect(indexer.tokens({ owner: bob })).toEqual([])
+    expect(indexer.asks({ asset: 'item' })).toEqual([
+      { asset: 'item', tokenId: '1', amount: '10', currency, updatedAt: 3 },
+    ])
+    expect(indexer.bids({ tokenId: '1', bidder: bob })).toHaveLength(1)
+    expect(indexer.listings({ tokenOwner: alice, status: 'active' })).toMatchObject([
+      { listingId: '7', listPrice: '5', highestBidder: bob, highestBid: '6' },
+    ])
+  })
+
+  it('persists the blocks older than the reorg depth only', async () => {
+    const store = new MemoryIndexerStore()
+    indexer = createIndexer(store)
+    await indexer.sync()
+
+    const snapshot = await store.load()
+    expect(snapshot.blockNumber).toBe(3)
+    expect(Object.keys(snapshot.tokens)).toEqual(['item:1', 'item:2'])
+    expect(snapshot.listings['item:7'].highestBid).toBeUndefined()
+  })
+
+  it('follows new blocks from the last indexed block', async () => {
+    await indexer.sync()
+    latestBlock = 6
+    assetEvents.push(
+      at(6, 0, { name: 'Transfer', from: alice, to: bob, tokenId: BigNumber.from(1) })
+    )
+
+    await indexer.sync()
+    expect(indexer.token('item', '1').owner).toBe(bob)
+    expect(indexer.blockNumber).toBe(6)
+  })
+
+  it('rolls back the unfinalized blocks on reorgs', async () => {
+    await indexer.sync()
+
+    // block 5 was replaced by a block without the listing bid
+    hashes[5] = '0x5b'
+    listingEvents.pop()
+    await indexer.sync()
+
+    expect(indexer.listings()[0].highestBid).toBeUndefined()
+    expect(indexer.tokens()).toHaveLength(1)
+  })
+
+  it('resumes from the persisted snapshot', async () => {
+    const store = new JSONFileIndexerStore(
+      join(mkdtempSync(join(tmpdir(), 'motif-')), 'index.json')
+    )
+    expect(await store.load()).toBeUndefined()
+
+    await createIndexer(store).sync()
+
+    const resumed = createIndexer(store)
+    await resumed.load()
+    expect(resumed.blockNumber).toBe(3)
+    expect(resumed.asks()).toHaveLength(1)
+
+    await resumed.sync()
+    expect(resumed.listings()[0].highestBidder).toBe(bob)
+  })
+
+  it('follows new blocks until stopped', async () => {
+    await indexer.start()
+    const [[event, listener]] = provider.on.mock.calls
+    expect(event).toBe('block')
+
+    indexer.stop()
+    expect(provider.off).toHaveBeenCalledWith('block', listener)
+  })
+
+  it('skips the sources without a contract', async () => {
+    const deployed = source(() => assetEvents)
+    const missing = source(() => [])
+    const zero = source(() => [])
+    indexer = new MotifIndexer(provider, [
+      { asset: 'item', contract: deployed, address: itemAddress },
+      { asset: 'item', contract: missing, address: '' },
+      { asset: 'item', contract: zero, address: AddressZero },
+    ])
+
+    await indexer.sync()
+
+    expect(indexer.sources.map(({ contract }) => contract)).toEqual([deployed])
+    expect(missing.fetchHistory).not.toHaveBeenCalled()
+    expect(zero.fetchHistory).not.toHaveBeenCalled()
+  })
+
+  it('only indexes the listing contracts deployed on the network of a Motif client', () => {
+    // ropsten has no land listing contract
+    const motif = new Motif({ ...provider, _isProvider: true }, 3, { multicall: false })
+
+    const listings = MotifIndexer.fromMotif(motif)
+      .sources.map(({ contract }) => contract)
+      .filter((contract) => contract instanceof MotifListing)
+
+    expect(motif.landListings.listing.address).toBe('')
+    expect(listings).not.toContain(motif.landListings)
+    expect(listings).toContain(motif.itemListings)
+  })
+})
@@ -0,0 +1,226 @@
+import { BigNumber } from '@ethersproject/bignumber'
+import {
+  InvalidArgumentError,
+  ReadOnlyError,
+  TrackedTransaction,
+  TransactionManager,
+} from '../src'
+
+describe('TransactionManager', () => {
+  const from = '0x1dC4c1cEFEF38a777b15aA20260a54E584b16C48'
+  const to = '0x1D7022f5B17d2F8B695918FB48fa1089C9f85401'
+
+  let receipts: { [hash: string]: any }
+  let known: { [hash: string]: boolean }
+  let nonce: number
+  let provider: any
+  let signer: any
+  let manager: TransactionManager
+
+  function response(hash: string, fees: any = { gasPrice: BigNumber.from(1000) }): any {
+    return {
+      hash,
+      from,
+      to,
+      nonce: 7,
+      data: '0x1234',
+      value: BigNumber.from(0),
+      gasLimit: BigNumber.from(100000),
+      chainId: 50,
+      ...fees,
+    }
+  }
+
+  function mine(hash: string, confirmations: number = 1, status: number = 1) {
+    receipts[hash] = { transactionHash: hash, blockNumber: 10, confirmations, status }
+    nonce = 8
+  }
+
+  beforeEach(() => {
+    receipts = {}
+    known = {}
+    nonce = 7
+    provider = {
+      getTransactionReceipt: jest.fn(async (hash: string) => receipts[hash] ?? null),
+      getTransactionCount: jest.fn(async () => nonce),
+      getTransaction: jest.fn(async (hash: string) => (known[hash] ? {} : null)),
+    }
+    signer = {
+      _isSigner: true,
+      provider,
+      sendTransaction: jest.fn(async () => {
+        known['0xb'] = true
+        return response('0xb')
+      }),
+    }
+    manager = new TransactionManager(signer, { pollingInterval: 1, dropTimeout: 20 })
+    known['0xa'] = true
+  })
+
+  it('confirms a transaction after the required confirmations', async () => {
+    manager.options.confirmations = 2
+    const statuses: Array<string> = []
+    manager.on('mined', (tracked) => statuses.push(tracked.status))
+    manager.on('confirmed', (tracked) => statuses.push(tracked.status))
+
+    manager.track(response('0xa'), 'item.mint')
+    mine('0xa', 1)
+    setTimeout(() => (receipts['0xa'].confirmations = 2), 10)
+
+    const tracked = await manager.wait('0xa')
+    expect(tracked.status).toBe('confirmed')
+    expect(tracked.method).toBe('item.mint')
+    expect(tracked.receipt.confirmations).toBe(2)
+    expect(statuses).toEqual(['mined', 'confirmed'])
+    expect(manager.pending()).toEqual([])
+  })
+
+  it('fails a reverted transaction', async () => {
+    manager.track(response('0xa'))
+    mine('0xa', 1, 0)
+
+    expect((await manager.wait('0xa')).status).toBe('failed')
+  })
+
+  it('speeds up a pending transaction with the same nonce and higher fees', async () => {
+    manager.track(response('0xa'), 'item.mint')
+    const replacement = await manager.speedUp('0xa')
+
+    expect(signer.sendTransaction).toHaveBeenCalledWith({
+      to,
+      data: '0x1234',
+      value: BigNumber.from(0),
+      gasLimit: BigNumber.from(100000),
+      nonce: 7,
+      chainId: 50,
+      gasPrice: BigNumber.from(1200),
+    })
+    expect(replacement.replaces).toBe('0xa')
+    expect(replacement.method).toBe('item.mint')
+
+    mine('0xb')
+    const original = await manager.wait('0xa')
+    expect(original.status).toBe('replaced')
+    expect(original.replacedBy).toBe('0xb')
+    expect((await manager.wait('0xb')).status).toBe('confirmed')
+  })
+
+  it('cancels a pending transaction with a zero-value self-send', async () => {
+    manager.track(
+      response('0xa', {
+        maxFeePerGas: BigNumber.from(2000),
+        maxPriorityFeePerGas: BigNumber.from(100),
+      })
+    )
+    const cancellation = await manager.cancel('0xa')
+
+    expect(signer.sendTransaction).toHaveBeenCalledWith({
+      to: from,
+      data: '0x',
+      value: 0,
+      gasLimit: 21000,
+      nonce: 7,
+      chainId: 50,
+      maxFeePerGas: BigNumber.from(2400),
+      maxPriorityFeePerGas: BigNumber.from(120),
+    })
+    expect(cancellation.method).toBe('cancel')
+
+    mine('0xb')
+    expect((await manager.wait('0xa')).status).toBe('cancelled')
+  })
+
+  it('detects transactions replaced outside of the sdk', async () => {
+    manager.track(response('0xa'))
+    nonce = 8
+
+    const tracked = await manager.wait('0xa')
+    expect(tracked.status).toBe('replaced')
+    expect(tracked.replacedBy).toBeUndefined()
+  })
+
+  it('drops transactions the network no longer knows', async () => {
+    const dropped: Array<TrackedTransaction> = []
+    manager.on('dropped', (tracked) => dropped.push(tracked))
+    known['0xa'] = false
+
+    manager.track(response('0xa'))
+
+    expect((await manager.wait('0xa')).status).toBe('dropped')
+    expect(dropped.map((tracked) => tracked.hash)).toEqual(['0xa'])
+  })
+
+  it('removes listeners', async () => {
+    const listener = jest.fn()
+    const unsubscribe = manager.on('pending', listener)
+    unsubscribe()
+
+    manager.track(response('0xa'))
+    mine('0xa')
+    await manager.wait('0xa')
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('untracks the oldest settled transactions beyond maxSettled', async () => {
+    manager.options.maxSettled = 1
+
+    manager.track(response('0xa'))
+    mine('0xa')
+    await manager.wait('0xa')
+    manager.track({ ...response('0xc'), nonce: 8 })
+    receipts['0xc'] = {
+      transactionHash: '0xc',
+      blockNumber: 11,
+      confirmations: 1,
+      status: 1,
+    }
+    await manager.wait('0xc')
+
+    expect(manager.get('0xa')).toBeUndefined()
+    expect(manager.get('0xc').status).toBe('confirmed')
+    await expect(manager.wait('0xa')).rejects.toBeInstanceOf(InvalidArgumentError)
+  })
+
+  it('only keeps the process alive while a transaction is awaited', async () => {
+    const spy = jest.spyOn(global, 'setTimeout')
+    // the polling timers wait for the polling interval of 1ms
+    const pollingTimers = () =>
+      spy.mock.calls
+        .map(([, ms], index) => (ms == 1 ? spy.mock.results[index].value : null))
+        .filter((timer) => timer != null)
+
+    try {
+      manager.track(response('0xa'))
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      expect(pollingTimers()[0].hasRef()).toBe(false)
+
+      const settlement = manager.wait('0xa')
+      const timers = pollingTimers()
+      expect(timers[timers.length - 1].hasRef()).toBe(true)
+      mine('0xa')
+      await settlement
+    } finally {
+      spy.mockRestore()
+    }
+  })
+
+  it('rejects replacing transactions that are not pending', async () => {
+    await expect(manager.speedUp('0xc')).rejects.toBeInstanceOf(InvalidArgumentError)
+
+    manager.track(response('0xa'))
+    mine('0xa')
+    await manager.wait('0xa')
+    await expect(manager.cancel('0xa')).rejects.toThrow(
+      'cancel: transaction 0xa is confirmed'
+    )
+  })
+
+  it('rejects replacing transactions without a signer', async () => {
+    const readOnly = new TransactionManager(provider, { pollingInterval: 1 })
+    readOnly.track(response('0xa'))
+
+    await expect(readOnly.speedUp('0xa')).rejects.toBeInstanceOf(ReadOnlyError)
+    mine('0xa')
+    await readOnly.wait('0xa')
+  })
+})
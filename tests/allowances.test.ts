@@ -0,0 +1,198 @@
+import { BigNumber } from '@ethersproject/bignumber'
+import { AddressZero, MaxUint256 } from '@ethersproject/constants'
+import { Contract } from '@ethersproject/contracts'
+import { Wallet } from '@ethersproject/wallet'
+import {
+  AllowanceManager,
+  defaultMotifConfig,
+  InsufficientFundsError,
+  ReadOnlyError,
+  TransactionManager,
+} from '../src'
+
+describe('AllowanceManager', () => {
+  const currency = '0x0000000000000000000000000000000000000005'
+  const spender = '0x0000000000000000000000000000000000000006'
+
+  let wallet: Wallet
+  let manager: AllowanceManager
+  let fakeErc20: any
+  let fakeWeth: any
+
+  // pays with the fake contracts instead of the contracts of the network
+  class FakeAllowanceManager extends AllowanceManager {
+    protected erc20(): Contract {
+      return fakeErc20
+    }
+
+    protected weth(method: string): Contract {
+      super.weth(method)
+      return fakeWeth
+    }
+  }
+
+  beforeEach(() => {
+    wallet = Wallet.createRandom()
+    manager = new FakeAllowanceManager(wallet, 50)
+    fakeErc20 = {
+      balanceOf: jest.fn().mockResolvedValue(BigNumber.from(100)),
+      allowance: jest.fn().mockResolvedValue(BigNumber.from(0)),
+      approve: jest.fn().mockResolvedValue({ hash: '0x01', wait: jest.fn() }),
+    }
+    fakeWeth = {
+      deposit: jest.fn().mockResolvedValue({ hash: '0x02', wait: jest.fn() }),
+      withdraw: jest.fn().mockResolvedValue({ hash: '0x03', wait: jest.fn() }),
+    }
+  })
+
+  it('passes when the balance and allowance cover the amount', async () => {
+    fakeErc20.allowance.mockResolvedValue(BigNumber.from(60))
+
+    const funds = await manager.ensure('setBid', currency, spender, 50)
+
+    expect(funds).toEqual({
+      currency,
+      owner: wallet.address,
+      spender,
+      amount: BigNumber.from(50),
+      balance: BigNumber.from(100),
+      allowance: BigNumber.from(60),
+    })
+    expect(fakeErc20.allowance).toHaveBeenCalledWith(wallet.address, spender)
+    expect(fakeErc20.approve).not.toHaveBeenCalled()
+  })
+
+  it('throws when the balance is insufficient', async () => {
+    const promise = manager.ensure('setBid', currency, spender, 150, { approve: 'exact' })
+
+    await expect(promise).rejects.toBeInstanceOf(InsufficientFundsError)
+    await expect(promise).rejects.toThrow(
+      `setBid: ${wallet.address} holds 100 of ${currency} but 150 is required`
+    )
+    await expect(promise).rejects.toMatchObject({
+      required: BigNumber.from(150),
+      available: BigNumber.from(100),
+    })
+    expect(fakeErc20.approve).not.toHaveBeenCalled()
+  })
+
+  it('throws when the allowance is insufficient and approving is not requested', async () => {
+    await expect(manager.ensure('createBid', currency, spender, 50)).rejects.toThrow(
+      `createBid: ${spender} may spend 0 of ${currency} for ${wallet.address} but 50 is required`
+    )
+  })
+
+  it.each([
+    ['exact', BigNumber.from(50)],
+    ['unlimited', MaxUint256],
+  ])('approves the %s amount', async (approve: any, approved) => {
+    const funds = await manager.ensure('createBid', currency, spender, 50, {
+      approve,
+      confirmations: 2,
+    })
+
+    expect(fakeErc20.approve).toHaveBeenCalledWith(spender, approved, {})
+    expect(funds.approval.wait).toHaveBeenCalledWith(2)
+    expect(funds.allowance).toEqual(approved)
+  })
+
+  it('sends the approval with the gas policy and tracks it', async () => {
+    manager = new FakeAllowanceManager(wallet, 50, {
+      ...defaultMotifConfig,
+      gasPolicy: { gasLimits: { approve: 60000 } },
+    })
+    manager.transactionManager = new TransactionManager(wallet)
+    const track = jest.spyOn(manager.transactionManager, 'track').mockImplementation()
+
+    const funds = await manager.ensure('setBid', currency, spender, 50, {
+      approve: 'exact',
+    })
+
+    expect(fakeErc20.approve).toHaveBeenCalledWith(spender, BigNumber.from(50), {
+      gasLimit: 60000,
+    })
+    expect(track).toHaveBeenCalledWith(funds.approval, 'erc20.approve')
+  })
+
+  it('only checks the balance of the native currency', async () => {
+    const provider: any = {
+      _isProvider: true,
+      getBalance: jest.fn().mockResolvedValue(BigNumber.from(10)),
+    }
+    manager = new AllowanceManager(wallet.connect(provider), 50)
+
+    await expect(
+      manager.ensure('createBid', AddressZero, spender, 20)
+    ).rejects.toBeInstanceOf(InsufficientFundsError)
+    const funds = await manager.ensure('createBid', AddressZero, spender, 10)
+
+    expect(funds.allowance).toBeNull()
+    expect(provider.getBalance).toHaveBeenCalledWith(wallet.address)
+  })
+
+  it('requires a signer to pay', async () => {
+    const provider: any = { _isProvider: true }
+    manager = new AllowanceManager(provider, 50)
+
+    await expect(manager.ensure('setBid', currency, spender, 1)).rejects.toBeInstanceOf(
+      ReadOnlyError
+    )
+  })
+
+  describe('WETH', () => {
+    let provider: any
+
+    beforeEach(() => {
+      provider = {
+        _isProvider: true,
+        getBalance: jest.fn().mockResolvedValue(BigNumber.from(1000)),
+      }
+      manager = new FakeAllowanceManager(
+        wallet.connect(provider),
+        50,
+        defaultMotifConfig,
+        currency
+      )
+      fakeErc20.allowance.mockResolvedValue(MaxUint256)
+    })
+
+    it('wraps just the missing balance', async () => {
+      const funds = await manager.ensure('setBid', currency, spender, 250, { wrap: true })
+
+      expect(fakeWeth.deposit).toHaveBeenCalledWith({ value: BigNumber.from(150) })
+      expect(funds.wrapping.hash).toBe('0x02')
+      expect(funds.balance).toEqual(BigNumber.from(250))
+    })
+
+    it('does not wrap unless asked to', async () => {
+      await expect(
+        manager.ensure('setBid', currency, spender, 250)
+      ).rejects.toBeInstanceOf(InsufficientFundsError)
+      expect(fakeWeth.deposit).not.toHaveBeenCalled()
+    })
+
+    it('throws when the native balance cannot cover the missing balance', async () => {
+      provider.getBalance.mockResolvedValue(BigNumber.from(100))
+
+      await expect(
+        manager.ensure('setBid', currency, spender, 250, { wrap: true })
+      ).rejects.toThrow(
+        `setBid: ${wallet.address} holds 100 of ${currency} and 100 of the native currency but 250 is required`
+      )
+      expect(fakeWeth.deposit).not.toHaveBeenCalled()
+    })
+
+    it('unwraps refunds', async () => {
+      const tx = await manager.unwrap(50)
+
+      expect(fakeWeth.withdraw).toHaveBeenCalledWith(50, {})
+      expect(tx.hash).toBe('0x03')
+    })
+
+    it('requires the WETH address of the network', async () => {
+      await expect(new FakeAllowanceManager(wallet, 50).unwrap(50)).rejects.toThrow(
+        'withdraw: the network has no WETH address'
+      )
+    })
+  })
+})
@@ -0,0 +1,164 @@
+import { Wallet } from '@ethersproject/wallet'
+import { BigNumber } from '@ethersproject/bignumber'
+import { AddressZero, HashZero } from '@ethersproject/constants'
+import { defaultMotifConfig, LRUCache, MotifItem, ReadThroughCache } from '../src'
+
+describe('Cache', () => {
+  const itemAddress = '0x1dC4c1cEFEF38a777b15aA20260a54E584b16C48'
+  const itemExchangeAddress = '0x1D7022f5B17d2F8B695918FB48fa1089C9f85401'
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('LRUCache', () => {
+    it('evicts the least recently used entries beyond its maximum size', () => {
+      const cache = new LRUCache(2)
+      cache.set('a', 1)
+      cache.set('b', 2)
+      cache.get('a')
+      cache.set('c', 3)
+
+      expect(cache.get('a')).toBe(1)
+      expect(cache.get('b')).toBeUndefined()
+      expect(cache.get('c')).toBe(3)
+      expect(cache.size).toBe(2)
+    })
+
+    it('expires the entries after their ttl', () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+      const cache = new LRUCache()
+      cache.set('a', 1, 500)
+      cache.set('b', 2)
+
+      now.mockReturnValue(1500)
+
+      expect(cache.get('a')).toBeUndefined()
+      expect(cache.get('b')).toBe(2)
+    })
+  })
+
+  describe('ReadThroughCache', () => {
+    it('fetches the missing fields once', async () => {
+      const cache = new ReadThroughCache({}, 'item')
+      const fetch = jest.fn().mockResolvedValue('0x01')
+
+      expect(await cache.read('contentHash', '1', false, fetch)).toBe('0x01')
+      expect(await cache.read('contentHash', '1', false, fetch)).toBe('0x01')
+      expect(fetch).toHaveBeenCalledTimes(1)
+    })
+
+    it.each([
+      ['the zero address', AddressZero],
+      ['a zero hash', HashZero],
+      ['a zero number', BigNumber.from(0)],
+      ['an empty list', []],
+    ])('does not cache %s read for an immutable field', async (name, empty) => {
+      const cache = new ReadThroughCache({}, 'item')
+      const fetch = jest.fn().mockResolvedValueOnce(empty).mockResolvedValue('0x01')
+
+      expect(await cache.read('contentHash', '1', false, fetch)).toEqual(empty)
+      expect(await cache.read('contentHash', '1', false, fetch)).toBe('0x01')
+      expect(await cache.read('contentHash', '1', false, fetch)).toBe('0x01')
+      expect(fetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('does not cache mutable fields without a ttl', async () => {
+      const cache = new ReadThroughCache({ ttl: 0 }, 'item')
+      const fetch = jest.fn().mockResolvedValue('0x01')
+
+      await cache.read('owner', '1', true, fetch)
+      await cache.read('owner', '1', true, fetch)
+
+      expect(fetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('stores the fields in the specified adapter', async () => {
+      const adapter = {
+        get: jest.fn().mockResolvedValue(undefined),
+        set: jest.fn().mockResolvedValue(undefined),
+        delete: jest.fn().mockResolvedValue(undefined),
+      }
+      const cache = new ReadThroughCache({ adapter, ttl: 100 }, 'item')
+
+      await cache.read('owner', '1', true, () => Promise.resolve('0x01'))
+      await cache.invalidate(['owner'], '1')
+
+      expect(adapter.set).toHaveBeenCalledWith('item:owner:1', '0x01', 100)
+      expect(adapter.delete).toHaveBeenCalledWith('item:owner:1')
+    })
+  })
+
+  describe('MotifAsset', () => {
+    let item: MotifItem
+    let fakeToken: any
+
+    beforeEach(() => {
+      item = new MotifItem(Wallet.createRandom(), 50, itemAddress, itemExchangeAddress, {
+        ...defaultMotifConfig,
+        cache: { ttl: 60 * 1000 },
+      })
+      fakeToken = {
+        tokenCreators: jest.fn().mockResolvedValue(itemAddress),
+        ownerOf: jest.fn().mockResolvedValue(itemAddress),
+      }
+      item.token = fakeToken
+    })
+
+    it('caches the immutable and mutable fields of each token', async () => {
+      await item.fetchCreator(1)
+      await item.fetchCreator(BigNumber.from(1))
+      await item.fetchCreator(2)
+      await item.fetchOwnerOf(1)
+      await item.fetchOwnerOf(1)
+
+      expect(fakeToken.tokenCreators).toHaveBeenCalledTimes(2)
+      expect(fakeToken.ownerOf).toHaveBeenCalledTimes(1)
+    })
+
+    it('does not cache the creator by default, as burning a token clears it', async () => {
+      item = new MotifItem(Wallet.createRandom(), 50, itemAddress, itemExchangeAddress)
+      item.token = fakeToken
+
+      await item.fetchCreator(1)
+      await item.fetchCreator(1)
+
+      expect(fakeToken.tokenCreators).toHaveBeenCalledTimes(2)
+    })
+
+    it('reads every field from the contracts when caching is disabled', async () => {
+      item = new MotifItem(Wallet.createRandom(), 50, itemAddress, itemExchangeAddress, {
+        ...defaultMotifConfig,
+        cache: false,
+      })
+      item.token = fakeToken
+
+      await item.fetchCreator(1)
+      await item.fetchCreator(1)
+
+      expect(item.cache).toBeUndefined()
+      expect(fakeToken.tokenCreators).toHaveBeenCalledTimes(2)
+    })
+
+    it('removes the cached fields changed by events', async () => {
+      const listeners = {}
+      jest.spyOn(item, 'on').mockImplementation((name, listener) => {
+        listeners[name] = listener
+        return jest.fn()
+      })
+      await item.fetchOwnerOf(1)
+      await item.fetchCreator(1)
+
+      const unsubscribe = item.invalidateCacheOnEvents()
+      await listeners['Transfer']({ tokenId: BigNumber.from(1) })
+      await item.fetchOwnerOf(1)
+      await item.fetchCreator(1)
+      unsubscribe()
+
+      // burning a token clears its creator
+      expect(fakeToken.ownerOf).toHaveBeenCalledTimes(2)
+      expect(fakeToken.tokenCreators).toHaveBeenCalledTimes(2)
+      expect(Object.keys(listeners)).toContain('BidFinalized')
+    })
+  })
+})
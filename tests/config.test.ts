@@ -0,0 +1,43 @@
+import {
+  defaultMotifConfig,
+  InvalidURIError,
+  resolveMotifConfig,
+  silentLogger,
+  validateURI,
+} from '../src'
+
+describe('Config', () => {
+  describe('resolveMotifConfig', () => {
+    it('returns the defaults when no config is specified', () => {
+      expect(resolveMotifConfig()).toEqual(defaultMotifConfig)
+    })
+
+    it('keeps the specified fields and fills in the rest', () => {
+      const config = resolveMotifConfig({
+        timeout: 30,
+        uriPolicy: { protocols: ['https', 'ipfs'] },
+      })
+      expect(config.timeout).toBe(30)
+      expect(config.uriPolicy.protocols).toEqual(['https', 'ipfs'])
+      expect(config.gasPolicy).toEqual({})
+      expect(config.logger).toBe(silentLogger)
+    })
+  })
+
+  describe('validateURI', () => {
+    it('only accepts https uris by default', () => {
+      expect(() => validateURI('https://example.com')).not.toThrow()
+      expect(() => validateURI('ipfs://QmHash')).toThrow(
+        'ipfs://QmHash must begin with `https://`'
+      )
+      expect(() => validateURI('ipfs://QmHash')).toThrow(InvalidURIError)
+    })
+
+    it('accepts uris of the specified protocols', () => {
+      expect(() => validateURI('ipfs://QmHash', ['https', 'ipfs'])).not.toThrow()
+      expect(() => validateURI('http://example.com', ['https', 'ipfs'])).toThrow(
+        'http://example.com must begin with `https://` or `ipfs://`'
+      )
+    })
+  })
+})
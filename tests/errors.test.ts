@@ -0,0 +1,137 @@
+import {
+  ContractRevertError,
+  decodeRevertData,
+  decodeRevertReason,
+  InvalidAddressError,
+  InvalidArgumentError,
+  MotifError,
+  toContractError,
+  validateAndParseAddress,
+} from '../src'
+import { defaultAbiCoder, Interface } from '@ethersproject/abi'
+import { hexConcat } from '@ethersproject/bytes'
+
+describe('Errors', () => {
+  describe('MotifError', () => {
+    it('keeps the class and name of subclasses', () => {
+      let error: any
+      try {
+        validateAndParseAddress('not an address')
+      } catch (err) {
+        error = err
+      }
+
+      expect(error).toBeInstanceOf(InvalidAddressError)
+      expect(error).toBeInstanceOf(InvalidArgumentError)
+      expect(error).toBeInstanceOf(MotifError)
+      expect(error.name).toBe('InvalidAddressError')
+      expect(error.address).toBe('not an address')
+      expect(error.message).toBe('not an address is not a valid address.')
+    })
+  })
+
+  describe('decodeRevertReason', () => {
+    it('decodes the reason of a call exception', () => {
+      const err = { code: 'CALL_EXCEPTION', reason: 'Item: nonexistent token' }
+      expect(decodeRevertReason(err)).toBe('Item: nonexistent token')
+    })
+
+    it('decodes the reason nested in a gas estimation error', () => {
+      const err = {
+        code: 'UNPREDICTABLE_GAS_LIMIT',
+        message: 'cannot estimate gas',
+        error: {
+          code: -32603,
+          message: 'execution reverted: Item: only approved or owner',
+        },
+      }
+      expect(decodeRevertReason(err)).toBe('Item: only approved or owner')
+    })
+
+    it('decodes the reason of a ganache revert', () => {
+      const err = {
+        message:
+          'VM Exception while processing transaction: revert Item: token with that id does not exist',
+      }
+      expect(decodeRevertReason(err)).toBe('Item: token with that id does not exist')
+    })
+
+    it('returns undefined if there is no reason', () => {
+      expect(decodeRevertReason({ code: 'CALL_EXCEPTION' })).toBeUndefined()
+    })
+  })
+
+  describe('decodeRevertData', () => {
+    const iface = new Interface(['error Unauthorized(address caller, uint256 tokenId)'])
+    const caller = '0x1dC4c1cEFEF38a777b15aA20260a54E584b16C48'
+
+    it('decodes revert strings', () => {
+      const data = hexConcat([
+        '0x08c379a0',
+        defaultAbiCoder.encode(['string'], ['Item: nonexistent token']),
+      ])
+      const revert = decodeRevertData(data)
+
+      expect(revert.reason).toBe('Item: nonexistent token')
+      expect(revert.errorName).toBe('Error')
+      expect(revert.data).toBe(data)
+    })
+
+    it('decodes panic codes', () => {
+      const data = hexConcat(['0x4e487b71', defaultAbiCoder.encode(['uint256'], [0x11])])
+      const revert = decodeRevertData(data)
+
+      expect(revert.panicCode).toBe(0x11)
+      expect(revert.errorName).toBe('Panic')
+      expect(revert.reason).toBe('panic 0x11 (arithmetic overflow or underflow)')
+    })
+
+    it('decodes custom errors of the specified interfaces', () => {
+      const data = iface.encodeErrorResult('Unauthorized', [caller, 1])
+      const revert = decodeRevertData(data, [iface])
+
+      expect(revert.errorName).toBe('Unauthorized')
+      expect(revert.errorArgs[0]).toBe(caller)
+      expect(revert.reason).toBe(`Unauthorized(${caller}, 1)`)
+    })
+
+    it('returns only the data of unknown errors', () => {
+      const data = iface.encodeErrorResult('Unauthorized', [caller, 1])
+      expect(decodeRevertData(data)).toEqual({ data })
+    })
+  })
+
+  describe('toContractError', () => {
+    it('converts contract reverts', () => {
+      const cause = { code: 'CALL_EXCEPTION', reason: 'Item: nonexistent token' }
+      const error = toContractError('burn', cause) as ContractRevertError
+
+      expect(error).toBeInstanceOf(ContractRevertError)
+      expect(error.method).toBe('burn')
+      expect(error.reason).toBe('Item: nonexistent token')
+      expect(error.cause).toBe(cause)
+      expect(error.message).toBe('burn reverted: Item: nonexistent token')
+    })
+
+    it('decodes the revert data nested in the error', () => {
+      const iface = new Interface(['error AlreadyListed(uint256 tokenId)'])
+      const cause = {
+        code: 'UNPREDICTABLE_GAS_LIMIT',
+        error: { code: -32603, data: iface.encodeErrorResult('AlreadyListed', [7]) },
+      }
+      const error = toContractError('createListing', cause, [
+        iface,
+      ]) as ContractRevertError
+
+      expect(error.errorName).toBe('AlreadyListed')
+      expect(error.message).toBe('createListing reverted: AlreadyListed(7)')
+    })
+
+    it('returns other errors as is', () => {
+      const networkError = Object.assign(new Error('missing response'), {
+        code: 'SERVER_ERROR',
+      })
+      expect(toContractError('burn', networkError)).toBe(networkError)
+    })
+  })
+})
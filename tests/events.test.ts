@@ -0,0 +1,347 @@
+import { Interface } from '@ethersproject/abi'
+import { BigNumber } from '@ethersproject/bignumber'
+import { AddressZero } from '@ethersproject/constants'
+import {
+  eventTopics,
+  fetchLogs,
+  InvalidArgumentError,
+  ItemListing,
+  matchesEventFilter,
+  MotifItem,
+  registerNetwork,
+} from '../src'
+
+describe('Events', () => {
+  const itemAddress = '0x1dC4c1cEFEF38a777b15aA20260a54E584b16C48'
+  const itemExchangeAddress = '0x1D7022f5B17d2F8B695918FB48fa1089C9f85401'
+  const alice = '0x0000000000000000000000000000000000000002'
+  const bob = '0x0000000000000000000000000000000000000003'
+  const tokenInterface = new Interface([
+    'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+    'event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)',
+    'event TokenURIUpdated(uint256 indexed _tokenId, address owner, string _uri)',
+    'event TokenMetadataURIUpdated(uint256 indexed _tokenId, address owner, string _uri)',
+  ])
+  const bid =
+    'tuple(uint256 amount, address currency, address bidder, address recipient, tuple(uint256 value) sellOnShare) bid'
+  const ask = 'tuple(uint256 amount, address currency) ask'
+  const exchangeInterface = new Interface([
+    `event BidCreated(uint256 indexed tokenId, ${bid})`,
+    `event BidRemoved(uint256 indexed tokenId, ${bid})`,
+    `event BidFinalized(uint256 indexed tokenId, ${bid})`,
+    `event AskCreated(uint256 indexed tokenId, ${ask})`,
+    `event AskRemoved(uint256 indexed tokenId, ${ask})`,
+    'event BidShareUpdated(uint256 indexed tokenId, tuple(tuple(uint256 value) prevOwner, tuple(uint256 value) creator, tuple(uint256 value) owner) bidShares)',
+  ])
+
+  let provider: any
+
+  function emit(logFilter: any, iface: Interface, name: string, args: Array<any>) {
+    const handler = provider.on.mock.calls.find(([filter]) => filter === logFilter)[1]
+    handler({
+      address: logFilter.address,
+      transactionHash: '0x01',
+      blockNumber: 10,
+      logIndex: 0,
+      ...iface.encodeEventLog(iface.getEvent(name), args),
+    })
+  }
+
+  beforeEach(() => {
+    provider = { _isProvider: true, on: jest.fn(), off: jest.fn() }
+  })
+
+  describe('eventTopics', () => {
+    it('restricts the indexed token id of the event', () => {
+      const topics = eventTopics(tokenInterface, 'TokenURIUpdated', {
+        tokenId: 5,
+        owner: alice,
+      })
+
+      expect(topics).toEqual([
+        tokenInterface.getEventTopic('TokenURIUpdated'),
+        '0x0000000000000000000000000000000000000000000000000000000000000005',
+      ])
+    })
+  })
+
+  describe('matchesEventFilter', () => {
+    it('matches the owner on either side of a transfer', () => {
+      const transfer = {
+        name: 'Transfer',
+        from: alice,
+        to: bob,
+        tokenId: BigNumber.from(1),
+      }
+
+      expect(matchesEventFilter(transfer, { owner: bob, tokenId: 1 })).toBe(true)
+      expect(matchesEventFilter(transfer, { owner: itemAddress })).toBe(false)
+      expect(matchesEventFilter(transfer, { bidder: alice })).toBe(false)
+    })
+
+    it('matches the bidder of exchange bids', () => {
+      const bidCreated = {
+        name: 'BidCreated',
+        tokenId: BigNumber.from(1),
+        bid: { bidder: bob },
+      }
+
+      expect(matchesEventFilter(bidCreated, { bidder: bob })).toBe(true)
+      expect(matchesEventFilter(bidCreated, { tokenId: 2 })).toBe(false)
+    })
+  })
+
+  describe('subscriptions', () => {
+    let item: MotifItem
+
+    beforeEach(() => {
+      item = new MotifItem(provider, 50, itemAddress, itemExchangeAddress)
+    })
+
+    it('delivers typed asset events matching the filter', () => {
+      const listener = jest.fn()
+      item.on('TokenURIUpdated', listener, { owner: alice })
+      const [[logFilter]] = provider.on.mock.calls
+
+      expect(logFilter.address).toBe(itemAddress)
+      emit(logFilter, tokenInterface, 'TokenURIUpdated', [1, bob, 'https://other.com'])
+      emit(logFilter, tokenInterface, 'TokenURIUpdated', [
+        1,
+        alice,
+        'https://example.com',
+      ])
+
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener.mock.calls[0][0]).toMatchObject({
+        name: 'TokenURIUpdated',
+        tokenId: BigNumber.from(1),
+        owner: alice,
+        uri: 'https://example.com',
+        transactionHash: '0x01',
+      })
+    })
+
+    it('subscribes to exchange events on the exchange contract', () => {
+      const listener = jest.fn()
+      item.on('BidCreated', listener, { bidder: bob })
+      const [[logFilter]] = provider.on.mock.calls
+
+      expect(logFilter.address).toBe(itemExchangeAddress)
+      emit(logFilter, exchangeInterface, 'BidCreated', [
+        3,
+        [100, AddressZero, bob, bob, [0]],
+      ])
+
+      expect(listener.mock.calls[0][0].bid.bidder).toBe(bob)
+      expect(listener.mock.calls[0][0].bid.amount.toNumber()).toBe(100)
+    })
+
+    it('removes the subscription', () => {
+      const listener = jest.fn()
+      const unsubscribe = item.on('Transfer', listener)
+      const [[logFilter, handler]] = provider.on.mock.calls
+
+      unsubscribe()
+      expect(provider.off).toHaveBeenCalledWith(logFilter, handler)
+    })
+
+    it('subscribes to listing events', () => {
+      const listing = new ItemListing(
+        provider,
+        50,
+        itemAddress,
+        '0x1D7022f5B17d2F8B695918FB48fa1089C9f85401'
+      )
+      const listingInterface: Interface = listing.listing.interface
+      const listener = jest.fn()
+
+      listing.on('ListingBid', listener, { listingId: 4, bidder: alice })
+      const [[logFilter]] = provider.on.mock.calls
+      expect(logFilter.topics[1]).toBe(
+        '0x0000000000000000000000000000000000000000000000000000000000000004'
+      )
+
+      emit(logFilter, listingInterface, 'ListingBid', [
+        4,
+        1,
+        itemAddress,
+        alice,
+        5,
+        true,
+        false,
+      ])
+      expect(listener.mock.calls[0][0]).toMatchObject({
+        name: 'ListingBid',
+        sender: alice,
+        firstBid: true,
+      })
+    })
+  })
+  describe('queries', () => {
+    it('fetches the logs in chunks of the block range', async () => {
+      provider.getBlockNumber = jest.fn().mockResolvedValue(25)
+      provider.getLogs = jest.fn().mockResolvedValue([])
+
+      await fetchLogs(
+        provider,
+        { address: itemAddress },
+        { fromBlock: 5, blockRange: 10 }
+      )
+
+      expect(
+        provider.getLogs.mock.calls.map(([filter]) => [filter.fromBlock, filter.toBlock])
+      ).toEqual([
+        [5, 14],
+        [15, 24],
+        [25, 25],
+      ])
+    })
+
+    it('splits the ranges returning too many results and retries failed requests', async () => {
+      provider.getLogs = jest.fn(async ({ fromBlock, toBlock }) => {
+        if (toBlock - fromBlock > 4) {
+          throw { code: -32005, message: 'query returned more than 10000 results' }
+        }
+        return [{ blockNumber: fromBlock }]
+      })
+      const logs = await fetchLogs(provider, {}, { fromBlock: 0, toBlock: 9 })
+      expect(logs.map((log) => log.blockNumber)).toEqual([0, 5])
+
+      provider.getLogs = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('timeout'))
+        .mockResolvedValue([])
+      await expect(
+        fetchLogs(provider, {}, { fromBlock: 0, toBlock: 0 })
+      ).resolves.toEqual([])
+      await expect(
+        fetchLogs(provider, {}, { fromBlock: 0, toBlock: 0, retries: 0 })
+      ).resolves.toEqual([])
+
+      provider.getLogs = jest.fn().mockRejectedValue(new Error('timeout'))
+      await expect(
+        fetchLogs(provider, {}, { fromBlock: 0, toBlock: 0, retries: 1 })
+      ).rejects.toThrow('timeout')
+      expect(provider.getLogs).toHaveBeenCalledTimes(2)
+    })
+
+    it('returns the history of a token in chain order with block timestamps', async () => {
+      const item = new MotifItem(provider, 50, itemAddress, itemExchangeAddress)
+
+      const log = (
+        address: string,
+        iface: Interface,
+        name: string,
+        args: Array<any>,
+        blockNumber: number
+      ) => ({
+        address,
+        transactionHash: '0x0' + blockNumber,
+        blockNumber,
+        logIndex: 0,
+        ...iface.encodeEventLog(iface.getEvent(name), args),
+      })
+      provider.getLogs = jest.fn(async ({ address }) =>
+        address == itemAddress
+          ? [
+              log(itemAddress, tokenInterface, 'Transfer', [AddressZero, alice, 1], 1),
+              log(itemAddress, tokenInterface, 'Transfer', [AddressZero, alice, 2], 2),
+              log(itemAddress, tokenInterface, 'Transfer', [alice, bob, 1], 3),
+            ]
+          : [
+              log(
+                itemExchangeAddress,
+                exchangeInterface,
+                'BidCreated',
+                [1, [100, AddressZero, bob, bob, [0]]],
+                2
+              ),
+            ]
+      )
+      provider.getBlock = jest.fn(async (blockNumber) => ({
+        timestamp: 1000 + blockNumber,
+      }))
+
+      const history = await item.fetchHistory(
+        { tokenId: 1 },
+        { fromBlock: 0, toBlock: 3 }
+      )
+
+      expect(
+        history.map((event) => [event.name, event.blockNumber, event.timestamp])
+      ).toEqual([
+        ['Transfer', 1, 1001],
+        ['BidCreated', 2, 1002],
+        ['Transfer', 3, 1003],
+      ])
+      expect(provider.getBlock).toHaveBeenCalledTimes(3)
+
+      const transfers = await item.fetchEvents(
+        'Transfer',
+        { owner: bob },
+        { fromBlock: 0, toBlock: 3 }
+      )
+      expect(transfers.map((event) => event.to)).toEqual([bob])
+    })
+
+    it('reads the timestamps of at most `concurrency` blocks at once', async () => {
+      const item = new MotifItem(provider, 50, itemAddress, itemExchangeAddress)
+      provider.getLogs = jest.fn(async () =>
+        [1, 2, 3, 4, 5, 5].map((blockNumber) => ({
+          address: itemAddress,
+          transactionHash: '0x0' + blockNumber,
+          blockNumber,
+          logIndex: 0,
+          ...tokenInterface.encodeEventLog(tokenInterface.getEvent('Transfer'), [
+            AddressZero,
+            alice,
+            blockNumber,
+          ]),
+        }))
+      )
+      let inFlight = 0
+      let maxInFlight = 0
+      provider.getBlock = jest.fn(async (blockNumber) => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight)
+        await new Promise((resolve) => setTimeout(resolve, 1))
+        inFlight--
+        return { timestamp: 1000 + blockNumber }
+      })
+
+      const transfers = await item.fetchEvents(
+        'Transfer',
+        {},
+        { fromBlock: 0, toBlock: 5, concurrency: 2 }
+      )
+
+      expect(transfers.map((event) => event.timestamp)).toEqual([
+        1001, 1002, 1003, 1004, 1005, 1005,
+      ])
+      expect(provider.getBlock).toHaveBeenCalledTimes(5)
+      expect(maxInFlight).toBe(2)
+    })
+
+    it('starts from the deployment block registered with the network', async () => {
+      registerNetwork({
+        chainId: 1344,
+        name: 'deployed',
+        addresses: { item: itemAddress },
+        deploymentBlocks: { item: 7 },
+      })
+      provider.getNetwork = jest.fn().mockResolvedValue({ chainId: 1344 })
+      provider.getLogs = jest.fn().mockResolvedValue([])
+
+      await fetchLogs(provider, { address: itemAddress.toLowerCase() }, { toBlock: 9 })
+
+      expect(provider.getLogs.mock.calls[0][0].fromBlock).toBe(7)
+      await expect(
+        fetchLogs(provider, { address: itemExchangeAddress }, { toBlock: 9 })
+      ).rejects.toThrow(
+        `fetchLogs: fromBlock is required, no deployment block is registered for ${itemExchangeAddress}`
+      )
+      await expect(fetchLogs(provider, {}, { toBlock: 9 })).rejects.toBeInstanceOf(
+        InvalidArgumentError
+      )
+    })
+  })
+})
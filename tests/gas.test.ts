@@ -0,0 +1,153 @@
+import { BigNumber } from '@ethersproject/bignumber'
+import {
+  getNetworkConfig,
+  mergeGasPolicies,
+  paddedGasLimit,
+  populateTransactionOverrides,
+  resolveFees,
+} from '../src'
+
+describe('Gas', () => {
+  let provider: any
+  let contract: any
+
+  beforeEach(() => {
+    provider = {
+      getGasPrice: jest.fn().mockResolvedValue(BigNumber.from(5000)),
+      getFeeData: jest.fn().mockResolvedValue({
+        gasPrice: BigNumber.from(5000),
+        maxFeePerGas: BigNumber.from(9000),
+        maxPriorityFeePerGas: BigNumber.from(1000),
+      }),
+    }
+    contract = {
+      provider,
+      estimateGas: { mint: jest.fn().mockResolvedValue(BigNumber.from(100000)) },
+    }
+  })
+
+  describe('paddedGasLimit', () => {
+    it('pads the estimate with the default percentage of the method', () => {
+      const gasLimit = paddedGasLimit(BigNumber.from(100000), 110, {})
+      expect(gasLimit.toNumber()).toBe(110000)
+    })
+
+    it('pads the estimate with the multiplier of the gas policy when specified', () => {
+      const gasLimit = paddedGasLimit(BigNumber.from(100000), 110, { multiplier: 150 })
+      expect(gasLimit.toNumber()).toBe(150000)
+    })
+  })
+
+  describe('mergeGasPolicies', () => {
+    it('lets later policies take precedence and merges the fixed gas limits', () => {
+      const policy = mergeGasPolicies(
+        { multiplier: 120, gasLimits: { mint: 1, burn: 2 }, fees: { type: 'legacy' } },
+        undefined,
+        { multiplier: 130, gasLimits: { burn: 3 } }
+      )
+
+      expect(policy).toEqual({
+        multiplier: 130,
+        gasLimits: { mint: 1, burn: 3 },
+        fees: { type: 'legacy' },
+      })
+    })
+  })
+
+  describe('resolveFees', () => {
+    it('returns the specified legacy gas price', async () => {
+      expect(await resolveFees({ type: 'legacy', gasPrice: 7 }, provider)).toEqual({
+        gasPrice: 7,
+      })
+      expect(provider.getGasPrice).not.toHaveBeenCalled()
+    })
+
+    it('scales the gas price of the provider for legacy fees', async () => {
+      const fees = await resolveFees({ type: 'legacy', multiplier: 120 }, provider)
+      expect(fees.gasPrice.toString()).toBe('6000')
+    })
+
+    it('fills in the unspecified eip1559 fees from the provider', async () => {
+      const fees = await resolveFees(
+        { type: 'eip1559', maxPriorityFeePerGas: 2 },
+        provider
+      )
+      expect(fees).toEqual({
+        maxFeePerGas: BigNumber.from(9000),
+        maxPriorityFeePerGas: 2,
+      })
+    })
+
+    it('falls back to the gas price of providers without fee data', async () => {
+      delete provider.getFeeData
+      const fees = await resolveFees(
+        { type: 'eip1559', maxPriorityFeePerGas: 2 },
+        provider
+      )
+      expect(fees).toEqual({ gasPrice: BigNumber.from(5000) })
+    })
+
+    it('calls fee strategy functions with the provider', async () => {
+      const strategy = jest.fn().mockResolvedValue({ gasPrice: 1 })
+      expect(await resolveFees(strategy, provider)).toEqual({ gasPrice: 1 })
+      expect(strategy).toHaveBeenCalledWith(provider)
+    })
+  })
+
+  describe('populateTransactionOverrides', () => {
+    it('pads the gas estimate of methods with a default padding', async () => {
+      const overrides = await populateTransactionOverrides(
+        contract,
+        'mint',
+        [1],
+        {},
+        {},
+        110
+      )
+      expect(overrides.gasLimit.toString()).toBe('110000')
+    })
+
+    it('leaves the gas limit to ethers without a padding or multiplier', async () => {
+      const overrides = await populateTransactionOverrides(contract, 'mint', [1], {})
+      expect(overrides).toEqual({})
+      expect(contract.estimateGas.mint).not.toHaveBeenCalled()
+    })
+
+    it('sends the fixed gas limit of the method without estimating', async () => {
+      const overrides = await populateTransactionOverrides(
+        contract,
+        'mint',
+        [1],
+        { gasLimits: { mint: 300000 } },
+        {},
+        110
+      )
+      expect(overrides.gasLimit).toBe(300000)
+      expect(contract.estimateGas.mint).not.toHaveBeenCalled()
+    })
+
+    it('keeps the gas limit and fees of the overrides', async () => {
+      const overrides = await populateTransactionOverrides(
+        contract,
+        'mint',
+        [1],
+        { gasLimits: { mint: 300000 }, fees: { type: 'legacy' } },
+        { gasLimit: 5, maxFeePerGas: 6, nonce: 7 },
+        110
+      )
+      expect(overrides).toEqual({ gasLimit: 5, maxFeePerGas: 6, nonce: 7 })
+      expect(provider.getGasPrice).not.toHaveBeenCalled()
+    })
+
+    it('adds the fees of the gas policy', async () => {
+      const overrides = await populateTransactionOverrides(contract, 'mint', [1], {
+        fees: { type: 'legacy' },
+      })
+      expect(overrides.gasPrice.toString()).toBe('5000')
+    })
+  })
+
+  it('sends legacy transactions on binance by default', () => {
+    expect(getNetworkConfig(56).gasPolicy).toEqual({ fees: { type: 'legacy' } })
+  })
+})
@@ -61,7 +61,7 @@ describe('Motif', () => {
           'not a valid ethereum address',
           '0x1D7022f5B17d2F8B695918FB48fa1089C9f85401'
         )
-      }).toThrow('Invariant failed: not a valid ethereum address is not a valid address')
+      }).toThrow('not a valid ethereum address is not a valid address')
 
       expect(function () {
         new Motif(
@@ -70,7 +70,7 @@ describe('Motif', () => {
           '0x1D7022f5B17d2F8B695918FB48fa1089C9f85401',
           'not a valid ethereum address'
         )
-      }).toThrow('Invariant failed: not a valid ethereum address is not a valid address')
+      }).toThrow('not a valid ethereum address is not a valid address')
     })
 
     it('throws an error if the chainId does not map to a network with deployed instance of the Motif Protocol', () => {
@@ -79,7 +79,7 @@ describe('Motif', () => {
       expect(function () {
         new Motif(wallet, 50)
       }).toThrow(
-        'Invariant failed: chainId 50 not officially supported by the Motif Protocol'
+        'chainId 50 not officially supported by the Motif Protocol'
       )
     })
 
@@ -94,7 +94,7 @@ describe('Motif', () => {
           '0x1dC4c1cEFEF38a777b15aA20260a54E584b16C48'
         )
       }).not.toThrow(
-        'Invariant failed: chainId 50 not officially supported by the Motif Protocol'
+        'chainId 50 not officially supported by the Motif Protocol'
       )
     })
 
@@ -226,7 +226,7 @@ describe('Motif', () => {
           const motif = new Motif(provider, 50, motifConfig.item, motifConfig.itemExchange)
           expect(motif.readOnly).toBe(true)
 
-          await expect(motif.updateContentURI(0, 'new uri')).rejects.toBe(
+          await expect(motif.updateContentURI(0, 'new uri')).rejects.toThrow(
             'ensureNotReadOnly: readOnly Motif instance cannot call contract methods that require a signer.'
           )
         })
@@ -234,8 +234,8 @@ describe('Motif', () => {
         it('throws an error if the tokenURI does not begin with `https://`', async () => {
           const motif = new Motif(otherWallet, 50, motifConfig.item, motifConfig.itemExchange)
           await motif.mint(defaultItemData, defaultBidShares)
-          await expect(motif.updateContentURI(0, 'http://example.com')).rejects.toBe(
-            'Invariant failed: http://example.com must begin with `https://`'
+          await expect(motif.updateContentURI(0, 'http://example.com')).rejects.toThrow(
+            'http://example.com must begin with `https://`'
           )
         })
 
@@ -260,7 +260,7 @@ describe('Motif', () => {
           const motif = new Motif(provider, 50, motifConfig.item, motifConfig.itemExchange)
           expect(motif.readOnly).toBe(true)
 
-          await expect(motif.updateMetadataURI(0, 'new uri')).rejects.toBe(
+          await expect(motif.updateMetadataURI(0, 'new uri')).rejects.toThrow(
             'ensureNotReadOnly: readOnly Motif instance cannot call contract methods that require a signer.'
           )
         })
@@ -268,8 +268,8 @@ describe('Motif', () => {
         it('throws an error if the metadataURI does not begin with `https://`', async () => {
           const motif = new Motif(otherWallet, 50, motifConfig.item, motifConfig.itemExchange)
           await motif.mint(defaultItemData, defaultBidShares)
-          await expect(motif.updateMetadataURI(0, 'http://example.com')).rejects.toBe(
-            'Invariant failed: http://example.com must begin with `https://`'
+          await expect(motif.updateMetadataURI(0, 'http://example.com')).rejects.toThrow(
+            'http://example.com must begin with `https://`'
           )
         })
 
@@ -294,7 +294,7 @@ describe('Motif', () => {
           const motif = new Motif(provider, 50, motifConfig.item, motifConfig.itemExchange)
           expect(motif.readOnly).toBe(true)
 
-          await expect(motif.mint(defaultItemData, defaultBidShares)).rejects.toBe(
+          await expect(motif.mint(defaultItemData, defaultBidShares)).rejects.toThrow(
             'ensureNotReadOnly: readOnly Motif instance cannot call contract methods that require a signer.'
           )
         })
@@ -308,8 +308,8 @@ describe('Motif', () => {
           }
           expect(motif.readOnly).toBe(false)
 
-          await expect(motif.mint(defaultItemData, invalidBidShares)).rejects.toBe(
-            'Invariant failed: The BidShares sum to 90000000000000000000, but they must sum to 100000000000000000000'
+          await expect(motif.mint(defaultItemData, invalidBidShares)).rejects.toThrow(
+            'The BidShares sum to 90000000000000000000, but they must sum to 100000000000000000000'
           )
         })
 
@@ -323,8 +323,8 @@ describe('Motif', () => {
           }
           expect(motif.readOnly).toBe(false)
 
-          await expect(motif.mint(invalidItemData, defaultBidShares)).rejects.toBe(
-            'Invariant failed: http://example.com must begin with `https://`'
+          await expect(motif.mint(invalidItemData, defaultBidShares)).rejects.toThrow(
+            'http://example.com must begin with `https://`'
           )
         })
 
@@ -338,8 +338,8 @@ describe('Motif', () => {
           }
           expect(motif.readOnly).toBe(false)
 
-          await expect(motif.mint(invalidItemData, defaultBidShares)).rejects.toBe(
-            'Invariant failed: http://metadata.com must begin with `https://`'
+          await expect(motif.mint(invalidItemData, defaultBidShares)).rejects.toThrow(
+            'http://metadata.com must begin with `https://`'
           )
         })
 
@@ -402,7 +402,7 @@ describe('Motif', () => {
               defaultBidShares,
               eipSig
             )
-          ).rejects.toBe(
+          ).rejects.toThrow(
             'ensureNotReadOnly: readOnly Motif instance cannot call contract methods that require a signer.'
           )
         })
@@ -423,8 +423,8 @@ describe('Motif', () => {
               invalidBidShares,
               eipSig
             )
-          ).rejects.toBe(
-            'Invariant failed: The BidShares sum to 90000000000000000000, but they must sum to 100000000000000000000'
+          ).rejects.toThrow(
+            'The BidShares sum to 90000000000000000000, but they must sum to 100000000000000000000'
           )
         })
 
@@ -445,8 +445,8 @@ describe('Motif', () => {
               defaultBidShares,
               eipSig
             )
-          ).rejects.toBe(
-            'Invariant failed: http://example.com must begin with `https://`'
+          ).rejects.toThrow(
+            'http://example.com must begin with `https://`'
           )
         })
 
@@ -460,8 +460,8 @@ describe('Motif', () => {
           }
           expect(motif.readOnly).toBe(false)
 
-          await expect(motif.mint(invalidItemData, defaultBidShares)).rejects.toBe(
-            'Invariant failed: http://metadata.com must begin with `https://`'
+          await expect(motif.mint(invalidItemData, defaultBidShares)).rejects.toThrow(
+            'http://metadata.com must begin with `https://`'
           )
         })
 
@@ -520,7 +520,7 @@ describe('Motif', () => {
           const motif = new Motif(provider, 50, motifConfig.item, motifConfig.itemExchange)
           expect(motif.readOnly).toBe(true)
 
-          await expect(motif.setAsk(0, defaultAsk)).rejects.toBe(
+          await expect(motif.setAsk(0, defaultAsk)).rejects.toThrow(
             'ensureNotReadOnly: readOnly Motif instance cannot call contract methods that require a signer.'
           )
         })
@@ -548,7 +548,7 @@ describe('Motif', () => {
           const motif = new Motif(provider, 50, motifConfig.item, motifConfig.itemExchange)
           expect(motif.readOnly).toBe(true)
 
-          await expect(motif.setBid(0, defaultBid)).rejects.toBe(
+          await expect(motif.setBid(0, defaultBid)).rejects.toThrow(
             'ensureNotReadOnly: readOnly Motif instance cannot call contract methods that require a signer.'
           )
         })
@@ -592,7 +592,7 @@ describe('Motif', () => {
           const motif = new Motif(provider, 50, motifConfig.item, motifConfig.itemExchange)
           expect(motif.readOnly).toBe(true)
 
-          await expect(motif.removeAsk(0)).rejects.toBe(
+          await expect(motif.removeAsk(0)).rejects.toThrow(
             'ensureNotReadOnly: readOnly Motif instance cannot call contract methods that require a signer.'
           )
         })
@@ -621,7 +621,7 @@ describe('Motif', () => {
           const motif = new Motif(provider, 50, motifConfig.item, motifConfig.itemExchange)
           expect(motif.readOnly).toBe(true)
 
-          await expect(motif.removeBid(0)).rejects.toBe(
+          await expect(motif.removeBid(0)).rejects.toThrow(
             'ensureNotReadOnly: readOnly Motif instance cannot call contract methods that require a signer.'
           )
         })
@@ -666,7 +666,7 @@ describe('Motif', () => {
           const motif = new Motif(provider, 50, motifConfig.item, motifConfig.itemExchange)
           expect(motif.readOnly).toBe(true)
 
-          await expect(motif.acceptBid(0, defaultBid)).rejects.toBe(
+          await expect(motif.acceptBid(0, defaultBid)).rejects.toThrow(
             'ensureNotReadOnly: readOnly Motif instance cannot call contract methods that require a signer.'
           )
         })
@@ -689,7 +689,7 @@ describe('Motif', () => {
           const motif = new Motif(provider, 50, motifConfig.item, motifConfig.itemExchange)
           expect(motif.readOnly).toBe(true)
 
-          await expect(motif.permit(otherWallet.address, 0, eipSig)).rejects.toBe(
+          await expect(motif.permit(otherWallet.address, 0, eipSig)).rejects.toThrow(
             'ensureNotReadOnly: readOnly Motif instance cannot call contract methods that require a signer.'
           )
         })
@@ -723,7 +723,7 @@ describe('Motif', () => {
           const motif = new Motif(provider, 50, motifConfig.item, motifConfig.itemExchange)
           expect(motif.readOnly).toBe(true)
 
-          await expect(motif.revokeApproval(0)).rejects.toBe(
+          await expect(motif.revokeApproval(0)).rejects.toThrow(
             'ensureNotReadOnly: readOnly Motif instance cannot call contract methods that require a signer.'
           )
         })
@@ -749,7 +749,7 @@ describe('Motif', () => {
           const motif = new Motif(provider, 50, motifConfig.item, motifConfig.itemExchange)
           expect(motif.readOnly).toBe(true)
 
-          await expect(motif.burn(0)).rejects.toBe(
+          await expect(motif.burn(0)).rejects.toThrow(
             'ensureNotReadOnly: readOnly Motif instance cannot call contract methods that require a signer.'
           )
         })
@@ -778,7 +778,7 @@ describe('Motif', () => {
           const motif = new Motif(provider, 50, motifConfig.item, motifConfig.itemExchange)
           expect(motif.readOnly).toBe(true)
 
-          await expect(motif.approve(otherWallet.address, 0)).rejects.toBe(
+          await expect(motif.approve(otherWallet.address, 0)).rejects.toThrow(
             'ensureNotReadOnly: readOnly Motif instance cannot call contract methods that require a signer.'
           )
         })
@@ -801,7 +801,7 @@ describe('Motif', () => {
           const motif = new Motif(provider, 50, motifConfig.item, motifConfig.itemExchange)
           expect(motif.readOnly).toBe(true)
 
-          await expect(motif.setApprovalForAll(otherWallet.address, true)).rejects.toBe(
+          await expect(motif.setApprovalForAll(otherWallet.address, true)).rejects.toThrow(
             'ensureNotReadOnly: readOnly Motif instance cannot call contract methods that require a signer.'
           )
         })
@@ -839,7 +839,7 @@ describe('Motif', () => {
 
           await expect(
             motif.transferFrom(mainWallet.address, otherWallet.address, 0)
-          ).rejects.toBe(
+          ).rejects.toThrow(
             'ensureNotReadOnly: readOnly Motif instance cannot call contract methods that require a signer.'
           )
         })
@@ -865,7 +865,7 @@ describe('Motif', () => {
 
           await expect(
             motif.safeTransferFrom(mainWallet.address, otherWallet.address, 0)
-          ).rejects.toBe(
+          ).rejects.toThrow(
             'ensureNotReadOnly: readOnly Motif instance cannot call contract methods that require a signer.'
           )
         })
@@ -1020,7 +1020,7 @@ describe('Motif', () => {
 
         it('rejects the promise if the item does not exist', async () => {
           const motif = new Motif(mainWallet, 50, motifConfig.item, motifConfig.itemExchange)
-          await expect(motif.isVerifiedItem(0)).rejects.toContain(
+          await expect(motif.isVerifiedItem(0)).rejects.toThrow(
             'token with that id does not exist'
           )
         })
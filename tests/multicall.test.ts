@@ -0,0 +1,255 @@
+import { defaultAbiCoder, Interface } from '@ethersproject/abi'
+import { Signer } from '@ethersproject/abstract-signer'
+import { Wallet } from '@ethersproject/wallet'
+import { ItemListing__factory } from '@motif-foundation/listing/dist/typechain'
+import { MULTICALL3_ADDRESS, MulticallBatcher, withMulticall } from '../src'
+
+describe('Multicall', () => {
+  const itemAddress = '0x1dC4c1cEFEF38a777b15aA20260a54E584b16C48'
+  const multicallInterface = new Interface([
+    'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)',
+  ])
+
+  let provider: any
+
+  function aggregateResult(results: Array<[boolean, string]>) {
+    return multicallInterface.encodeFunctionResult('aggregate3', [
+      results.map(([success, returnData]) => ({ success, returnData })),
+    ])
+  }
+
+  function decodeCalls(data: string) {
+    return multicallInterface.decodeFunctionData('aggregate3', data)[0]
+  }
+
+  beforeEach(() => {
+    provider = {
+      _isProvider: true,
+      call: jest.fn(),
+      getNetwork: jest.fn().mockResolvedValue({ chainId: 1 }),
+    }
+  })
+
+  describe('MulticallBatcher', () => {
+    it('sends the calls made together as one aggregate3 call', async () => {
+      provider.call.mockResolvedValue(
+        aggregateResult([
+          [true, '0x01'],
+          [true, '0x02'],
+          [true, '0x03'],
+        ])
+      )
+      const batcher = new MulticallBatcher(provider, MULTICALL3_ADDRESS)
+
+      const results = await Promise.all(
+        ['0xaa', '0xbb', '0xcc'].map((data) => batcher.call({ to: itemAddress, data }))
+      )
+
+      expect(results).toEqual(['0x01', '0x02', '0x03'])
+      expect(provider.call).toHaveBeenCalledTimes(1)
+      const [request] = provider.call.mock.calls[0]
+      expect(request.to).toBe(MULTICALL3_ADDRESS)
+      expect(decodeCalls(request.data).map((call) => call.callData)).toEqual([
+        '0xaa',
+        '0xbb',
+        '0xcc',
+      ])
+    })
+
+    it('splits the calls into batches of batchSize', async () => {
+      provider.call.mockImplementation(({ data }) =>
+        Promise.resolve(aggregateResult(decodeCalls(data).map(() => [true, '0x01'])))
+      )
+      const batcher = new MulticallBatcher(provider, MULTICALL3_ADDRESS, { batchSize: 2 })
+
+      await Promise.all(
+        [1, 2, 3, 4].map(() => batcher.call({ to: itemAddress, data: '0xaa' }))
+      )
+
+      expect(provider.call).toHaveBeenCalledTimes(2)
+    })
+
+    it('retries the calls that failed in the batch on their own', async () => {
+      const revert = new Error('execution reverted')
+      provider.call
+        .mockResolvedValueOnce(
+          aggregateResult([
+            [true, '0x01'],
+            [false, '0x'],
+          ])
+        )
+        .mockRejectedValueOnce(revert)
+      const batcher = new MulticallBatcher(provider, MULTICALL3_ADDRESS)
+
+      const results = await Promise.all([
+        batcher.call({ to: itemAddress, data: '0xaa' }),
+        batcher.call({ to: itemAddress, data: '0xbb' }).catch((err) => err),
+      ])
+
+      expect(results).toEqual(['0x01', revert])
+      expect(provider.call.mock.calls[1][0]).toEqual({ to: itemAddress, data: '0xbb' })
+    })
+
+    it('sends the calls on their own once the multicall contract is unavailable', async () => {
+      provider.call.mockImplementation(({ to, data }) =>
+        Promise.resolve(to == MULTICALL3_ADDRESS ? '0x' : data)
+      )
+      provider.getCode = jest.fn().mockResolvedValue('0x')
+      const batcher = new MulticallBatcher(provider, MULTICALL3_ADDRESS)
+
+      const first = await Promise.all([
+        batcher.call({ to: itemAddress, data: '0xaa' }),
+        batcher.call({ to: itemAddress, data: '0xbb' }),
+      ])
+      const second = await Promise.all([
+        batcher.call({ to: itemAddress, data: '0xcc' }),
+        batcher.call({ to: itemAddress, data: '0xdd' }),
+      ])
+
+      expect(first).toEqual(['0xaa', '0xbb'])
+      expect(second).toEqual(['0xcc', '0xdd'])
+      // one failed aggregate3 call, then every call on its own
+      expect(provider.call).toHaveBeenCalledTimes(5)
+      expect(provider.getCode).toHaveBeenCalledWith(MULTICALL3_ADDRESS)
+    })
+
+    it('keeps batching after a failure of the node', async () => {
+      provider.call
+        .mockRejectedValueOnce(new Error('timeout'))
+        .mockImplementation(({ to, data }) =>
+          Promise.resolve(
+            to == MULTICALL3_ADDRESS
+              ? aggregateResult(decodeCalls(data).map((call) => [true, call.callData]))
+              : data
+          )
+        )
+      provider.getCode = jest.fn().mockResolvedValue('0x6080')
+      const batcher = new MulticallBatcher(provider, MULTICALL3_ADDRESS)
+
+      const first = await Promise.all([
+        batcher.call({ to: itemAddress, data: '0xaa' }),
+        batcher.call({ to: itemAddress, data: '0xbb' }),
+      ])
+      const second = await Promise.all([
+        batcher.call({ to: itemAddress, data: '0xcc' }),
+        batcher.call({ to: itemAddress, data: '0xdd' }),
+      ])
+
+      expect(first).toEqual(['0xaa', '0xbb'])
+      expect(second).toEqual(['0xcc', '0xdd'])
+      // the failed aggregate3 call, the first calls on their own, then one aggregate3 call
+      expect(provider.call).toHaveBeenCalledTimes(4)
+    })
+
+    it('does not batch calls made for another sender than the signer', async () => {
+      provider.call.mockResolvedValue('0x01')
+      const batcher = new MulticallBatcher(
+        provider,
+        MULTICALL3_ADDRESS,
+        {},
+        undefined,
+        Wallet.createRandom()
+      )
+      const from = Wallet.createRandom().address
+
+      await Promise.all([
+        batcher.call({ to: itemAddress, data: '0xaa', from }),
+        batcher.call({ to: itemAddress, data: '0xbb', from }),
+      ])
+
+      expect(provider.call).toHaveBeenCalledTimes(2)
+      expect(provider.call).toHaveBeenCalledWith(
+        { to: itemAddress, data: '0xaa', from },
+        undefined
+      )
+    })
+
+    it('does not batch calls reading a past block', async () => {
+      provider.call.mockResolvedValue('0x01')
+      const batcher = new MulticallBatcher(provider, MULTICALL3_ADDRESS)
+
+      await batcher.call({ to: itemAddress, data: '0xaa' }, 10)
+
+      expect(provider.call).toHaveBeenCalledWith({ to: itemAddress, data: '0xaa' }, 10)
+    })
+  })
+
+  describe('withMulticall', () => {
+    it('returns the provider itself on networks without a multicall contract', () => {
+      expect(withMulticall(provider, 50)).toBe(provider)
+    })
+
+    it('batches the calls of the provider of a signer', async () => {
+      provider.call.mockImplementation(({ to, data }) =>
+        Promise.resolve(
+          to == MULTICALL3_ADDRESS
+            ? aggregateResult(decodeCalls(data).map((call) => [true, call.callData]))
+            : data
+        )
+      )
+      const wallet = Wallet.createRandom().connect(provider)
+
+      const signer = withMulticall(wallet, 1)
+      const results = await Promise.all([
+        signer.provider.call({ to: itemAddress, data: '0xaa' }),
+        signer.provider.call({ to: itemAddress, data: '0xbb' }),
+        signer.call({ to: itemAddress, data: '0xcc' }),
+      ])
+
+      expect(Signer.isSigner(signer)).toBe(true)
+      expect(await signer.getAddress()).toBe(wallet.address)
+      expect(results).toEqual(['0xaa', '0xbb', '0xcc'])
+      expect(provider.call).toHaveBeenCalledTimes(1)
+      expect(decodeCalls(provider.call.mock.calls[0][0].data)).toHaveLength(3)
+    })
+
+    it('batches the reads of contracts connected to the signer', async () => {
+      provider.call.mockImplementation(({ to, data }) =>
+        Promise.resolve(
+          to == MULTICALL3_ADDRESS
+            ? aggregateResult(
+                decodeCalls(data).map((call, index) => [
+                  true,
+                  defaultAbiCoder.encode(['uint256'], [index + 1]),
+                ])
+              )
+            : '0x'
+        )
+      )
+      const wallet = Wallet.createRandom().connect(provider)
+      const listing = ItemListing__factory.connect(itemAddress, withMulticall(wallet, 1))
+
+      const results = await Promise.all([listing.timeBuffer(), listing.timeBuffer()])
+
+      expect(results.map((result) => result.toNumber())).toEqual([1, 2])
+      expect(provider.call).toHaveBeenCalledTimes(1)
+      expect(provider.call.mock.calls[0][0].to).toBe(MULTICALL3_ADDRESS)
+    })
+
+    it('retries the reverting calls of the signer on their own for its address', async () => {
+      const revert = new Error('execution reverted')
+      provider.call
+        .mockResolvedValueOnce(
+          aggregateResult([
+            [true, '0x01'],
+            [false, '0x'],
+          ])
+        )
+        .mockRejectedValueOnce(revert)
+      const wallet = Wallet.createRandom().connect(provider)
+
+      const signer = withMulticall(wallet, 1)
+      const results = await Promise.all([
+        signer.call({ to: itemAddress, data: '0xaa' }),
+        signer.call({ to: itemAddress, data: '0xbb' }).catch((err) => err),
+      ])
+
+      expect(results).toEqual(['0x01', revert])
+      expect(provider.call.mock.calls[1][0]).toMatchObject({
+        to: itemAddress,
+        data: '0xbb',
+        from: wallet.address,
+      })
+    })
+  })
+})
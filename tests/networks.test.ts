@@ -0,0 +1,131 @@
+import {
+  chainIdToNetworkName,
+  findNetworkConfig,
+  getNetworkAddress,
+  getNetworkConfig,
+  ItemListing,
+  Motif,
+  registerNetwork,
+  registerNetworksFromFile,
+  registerNetworksFromJSON,
+  UnsupportedNetworkError,
+} from '../src'
+import { Wallet } from '@ethersproject/wallet'
+import { promises } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+describe('Networks', () => {
+  const item = '0x1dC4c1cEFEF38a777b15aA20260a54E584b16C48'
+  const itemExchange = '0x1D7022f5B17d2F8B695918FB48fa1089C9f85401'
+
+  describe('registerNetwork', () => {
+    it('registers a network and checksums its addresses', () => {
+      const network = registerNetwork({
+        chainId: 1337,
+        name: 'local',
+        addresses: { item: item.toLowerCase(), itemExchange, landListing: '' },
+        wethAddress: itemExchange.toLowerCase(),
+        explorerUrl: 'https://explorer.local',
+      })
+
+      expect(network.addresses.item).toBe(item)
+      expect(network.addresses.landListing).toBe('')
+      expect(network.wethAddress).toBe(itemExchange)
+      expect(getNetworkConfig(1337)).toEqual(network)
+      expect(chainIdToNetworkName(1337)).toBe('local')
+    })
+
+    it('throws an error if an address is invalid', () => {
+      expect(() =>
+        registerNetwork({ chainId: 1338, name: 'broken', addresses: { item: '0x123' } })
+      ).toThrow('registerNetwork: item 0x123 of broken is not a valid address.')
+    })
+
+    it('throws an error if the name is registered for another chainId', () => {
+      expect(() =>
+        registerNetwork({ chainId: 1339, name: 'mainnet', addresses: {} })
+      ).toThrow('registerNetwork: mainnet is already registered for chainId 1')
+    })
+  })
+
+  describe('registerNetworksFromJSON', () => {
+    it('registers a single network or an array of networks', () => {
+      const json = JSON.stringify([
+        { chainId: 31337, name: 'hardhat', addresses: { item } },
+        { chainId: 31338, name: 'fork', addresses: { item }, eip712ChainId: 1 },
+      ])
+      const networks = registerNetworksFromJSON(json)
+
+      expect(networks.map((network) => network.name)).toEqual(['hardhat', 'fork'])
+      expect(getNetworkConfig(31338).eip712ChainId).toBe(1)
+    })
+  })
+
+  describe('registerNetworksFromFile', () => {
+    it('registers the networks of a JSON file', async () => {
+      const path = join(tmpdir(), `motif-networks-${Wallet.createRandom().address}.json`)
+      await promises.writeFile(
+        path,
+        JSON.stringify({ chainId: 4242, name: 'deployment', addresses: { item } })
+      )
+
+      try {
+        await registerNetworksFromFile(path)
+      } finally {
+        await promises.unlink(path)
+      }
+      expect(getNetworkConfig(4242).addresses.item).toBe(item)
+    })
+  })
+
+  describe('getNetworkConfig', () => {
+    it('throws an error for an unregistered chainId', () => {
+      expect(findNetworkConfig(999999)).toBeUndefined()
+      expect(() => getNetworkConfig(999999)).toThrow(
+        'chainId 999999 not officially supported by the Motif'
+      )
+      expect(() => getNetworkConfig(999999)).toThrow(UnsupportedNetworkError)
+    })
+
+    it('signs with chainId 1 on ganache', () => {
+      expect(getNetworkConfig(50).eip712ChainId).toBe(1)
+    })
+  })
+
+  describe('getNetworkAddress', () => {
+    const provider: any = { _isProvider: true }
+
+    beforeAll(() => {
+      registerNetwork({
+        chainId: 1340,
+        name: 'partial',
+        addresses: { item, itemExchange, landListing: '' },
+      })
+    })
+
+    it('returns the registered addresses, empty for contracts that are not deployed', () => {
+      expect(getNetworkAddress(1340, 'item')).toBe(item)
+      expect(getNetworkAddress(1340, 'landListing')).toBe('')
+    })
+
+    it('throws an error naming the key missing from the network', () => {
+      expect(() => getNetworkAddress(1340, 'itemListing')).toThrow(
+        'partial (chainId 1340) has no itemListing address'
+      )
+      expect(() => new ItemListing(provider, 1340)).toThrow(UnsupportedNetworkError)
+      expect(() => new ItemListing(provider, 1340)).toThrow(
+        'partial (chainId 1340) has no itemListing address'
+      )
+    })
+
+    it('requires every address to create a client', () => {
+      expect(() => new Motif(provider, 1340, { multicall: false })).toThrow(
+        UnsupportedNetworkError
+      )
+      expect(() => new Motif(provider, 50)).toThrow(
+        'ganache (chainId 50) has no item address'
+      )
+    })
+  })
+})
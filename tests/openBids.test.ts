@@ -0,0 +1,155 @@
+import { BigNumber } from '@ethersproject/bignumber'
+import { AddressZero } from '@ethersproject/constants'
+import { Wallet } from '@ethersproject/wallet'
+import { JsonRpcProvider } from '@ethersproject/providers'
+import { constructBid, Motif, MotifItem, ReadOnlyError } from '../src'
+
+describe('Open Bids', () => {
+  const itemAddress = '0x1dC4c1cEFEF38a777b15aA20260a54E584b16C48'
+  const itemExchangeAddress = '0x1D7022f5B17d2F8B695918FB48fa1089C9f85401'
+  const usdc = '0x0000000000000000000000000000000000000009'
+  const weth = '0x000000000000000000000000000000000000000A'
+  const bidder = '0x0000000000000000000000000000000000000002'
+
+  function bid(currency: string, amount: number) {
+    return constructBid(currency, amount, bidder, bidder, 0)
+  }
+
+  function bidCreated(tokenId: number) {
+    return {
+      name: 'BidCreated',
+      tokenId: BigNumber.from(tokenId),
+      bid: bid(usdc, 1),
+      blockNumber: tokenId,
+      logIndex: 0,
+      transactionHash: '0x01',
+      timestamp: 0,
+    }
+  }
+
+  describe('MotifAsset', () => {
+    let item: MotifItem
+    let fakeExchange: any
+
+    beforeEach(() => {
+      item = new MotifItem(Wallet.createRandom(), 50, itemAddress, itemExchangeAddress)
+      fakeExchange = { bidForTokenBidder: jest.fn() }
+      item.exchange = fakeExchange
+    })
+
+    describe('#fetchOpenBids', () => {
+      it('reads back the bids on the tokens the bidder bid on', async () => {
+        const events: any = [bidCreated(1), bidCreated(2), bidCreated(1)]
+        const fetchEvents = jest.spyOn(item, 'fetchEvents').mockResolvedValue(events)
+        fakeExchange.bidForTokenBidder.mockImplementation((tokenId) =>
+          Promise.resolve(tokenId.eq(1) ? bid(usdc, 0) : bid(usdc, 50))
+        )
+
+        const openBids = await item.fetchOpenBids(bidder.toLowerCase(), { fromBlock: 5 })
+
+        expect(fetchEvents).toHaveBeenCalledWith(
+          'BidCreated',
+          { bidder },
+          { fromBlock: 5 }
+        )
+        expect(fakeExchange.bidForTokenBidder).toHaveBeenCalledTimes(2)
+        expect(openBids).toHaveLength(1)
+        expect(openBids[0].asset).toBe('item')
+        expect(openBids[0].tokenId.toNumber()).toBe(2)
+        expect(openBids[0].bid.amount).toBe(50)
+      })
+    })
+
+    describe('#removeBids', () => {
+      it('removes each bid and reports the failures per token', async () => {
+        const transaction: any = { hash: '0x01' }
+        const error = new Error('reverted')
+        jest
+          .spyOn(item, 'removeBid')
+          .mockResolvedValueOnce(transaction)
+          .mockRejectedValueOnce(error)
+
+        const results = await item.removeBids([1, 2])
+
+        expect(results).toEqual([
+          { asset: 'item', tokenId: BigNumber.from(1), transaction },
+          { asset: 'item', tokenId: BigNumber.from(2), error },
+        ])
+      })
+
+      it('rejects if called on a readOnly instance', async () => {
+        item = new MotifItem(new JsonRpcProvider(), 50, itemAddress, itemExchangeAddress)
+
+        await expect(item.removeBids([1])).rejects.toBeInstanceOf(ReadOnlyError)
+      })
+    })
+  })
+
+  describe('Motif', () => {
+    let motif: Motif
+    let assets: { [key: string]: any }
+
+    function fakeAsset(assetKey: string, openBids: Array<any>) {
+      return {
+        assetKey,
+        fetchOpenBids: jest.fn().mockResolvedValue(openBids),
+        removeBids: jest.fn().mockImplementation((tokenIds) =>
+          Promise.resolve(
+            tokenIds.map((tokenId) => ({
+              asset: assetKey,
+              tokenId: BigNumber.from(tokenId),
+            }))
+          )
+        ),
+      }
+    }
+
+    beforeEach(() => {
+      assets = {
+        items: fakeAsset('item', [
+          { asset: 'item', tokenId: BigNumber.from(1), bid: bid(usdc, 10) },
+          { asset: 'item', tokenId: BigNumber.from(2), bid: bid(weth, 3) },
+        ]),
+        avatars: fakeAsset('avatar', []),
+        lands: fakeAsset('land', [
+          { asset: 'land', tokenId: BigNumber.from(1), bid: bid(usdc.toLowerCase(), 5) },
+        ]),
+        spaces: fakeAsset('space', []),
+      }
+      // the contracts of a network are not needed to aggregate the assets
+      motif = Object.assign(Object.create(Motif.prototype), assets)
+    })
+
+    describe('#fetchOpenBids', () => {
+      it('aggregates the open bids of every exchange with their locked amounts', async () => {
+        const openBids = await motif.fetchOpenBids(bidder)
+
+        expect(assets.items.fetchOpenBids).toHaveBeenCalledWith(bidder, {})
+        expect(openBids.bids.map((openBid) => openBid.asset)).toEqual([
+          'item',
+          'item',
+          'land',
+        ])
+        expect(openBids.lockedAmounts).toEqual({
+          [usdc]: BigNumber.from(15),
+          [weth]: BigNumber.from(3),
+        })
+      })
+    })
+
+    describe('#removeBids', () => {
+      it('removes each bid on the exchange of its asset', async () => {
+        const results = await motif.removeBids([
+          { asset: 'land', tokenId: BigNumber.from(1) },
+          { asset: 'item', tokenId: BigNumber.from(2) },
+          { asset: 'unknown', tokenId: BigNumber.from(3) },
+        ])
+
+        expect(assets.lands.removeBids).toHaveBeenCalledWith([BigNumber.from(1)], {})
+        expect(assets.items.removeBids).toHaveBeenCalledWith([BigNumber.from(2)], {})
+        expect(results.map((result) => result.asset)).toEqual(['land', 'item', 'unknown'])
+        expect(results[2].error.message).toBe('removeBids: unknown asset unknown')
+      })
+    })
+  })
+})
@@ -0,0 +1,174 @@
+import {
+  buildProvenanceEvents,
+  isProvenanceReportVerified,
+  parseProvenanceReport,
+  Provenance,
+  recoverProvenanceSigner,
+  signProvenance,
+} from '../src'
+import { Wallet } from '@ethersproject/wallet'
+import { BigNumber } from '@ethersproject/bignumber'
+import { AddressZero } from '@ethersproject/constants'
+
+describe('Provenance', () => {
+  const itemAddress = '0x1dC4c1cEFEF38a777b15aA20260a54E584b16C48'
+  const currency = '0x0000000000000000000000000000000000000009'
+  const alice = '0x0000000000000000000000000000000000000002'
+  const bob = '0x0000000000000000000000000000000000000003'
+  const carol = '0x0000000000000000000000000000000000000004'
+
+  function location(blockNumber: number, logIndex: number, transactionHash: string) {
+    return { blockNumber, logIndex, transactionHash, timestamp: blockNumber * 10 }
+  }
+
+  describe('#buildProvenanceEvents', () => {
+    it('orders mints, uri updates, sales and burns', () => {
+      const tokenId = BigNumber.from(1)
+      const bid = {
+        amount: BigNumber.from(100),
+        currency,
+        bidder: bob,
+        recipient: bob,
+        sellOnShare: { value: BigNumber.from(0) },
+      }
+      const events = buildProvenanceEvents(
+        [
+          { name: 'BidFinalized', tokenId, bid, ...location(3, 1, '0x03') },
+          { name: 'Transfer', from: alice, to: bob, tokenId, ...location(3, 0, '0x03') },
+          {
+            name: 'Transfer',
+            from: AddressZero,
+            to: alice,
+            tokenId,
+            ...location(1, 0, '0x01'),
+          },
+          {
+            name: 'TokenURIUpdated',
+            tokenId,
+            owner: alice,
+            uri: 'https://example.com',
+            ...location(2, 0, '0x02'),
+          },
+          {
+            name: 'Transfer',
+            from: carol,
+            to: AddressZero,
+            tokenId,
+            ...location(5, 0, '0x05'),
+          },
+        ],
+        [
+          {
+            name: 'ListingEnded',
+            listingId: BigNumber.from(7),
+            tokenId,
+            tokenContract: itemAddress,
+            tokenOwner: bob,
+            intermediary: AddressZero,
+            winner: carol,
+            amount: BigNumber.from(200),
+            intermediaryFee: BigNumber.from(0),
+            listCurrency: AddressZero,
+            ...location(4, 0, '0x04'),
+          },
+        ]
+      )
+
+      expect(events.map((event) => event.type)).toEqual([
+        'mint',
+        'contentURIUpdated',
+        'transfer',
+        'sale',
+        'listingSale',
+        'burn',
+      ])
+      expect(events[3]).toEqual({
+        type: 'sale',
+        ...location(3, 1, '0x03'),
+        from: alice,
+        to: bob,
+        amount: '100',
+        currency,
+      })
+      expect(events[4]).toMatchObject({
+        from: bob,
+        to: carol,
+        amount: '200',
+        listingId: '7',
+      })
+    })
+
+    it('skips listings ended without a winner', () => {
+      const events = buildProvenanceEvents(
+        [],
+        [
+          {
+            name: 'ListingEnded',
+            listingId: BigNumber.from(7),
+            tokenId: BigNumber.from(1),
+            tokenContract: itemAddress,
+            tokenOwner: bob,
+            intermediary: AddressZero,
+            winner: AddressZero,
+            amount: BigNumber.from(0),
+            intermediaryFee: BigNumber.from(0),
+            listCurrency: AddressZero,
+            ...location(4, 0, '0x04'),
+          },
+        ]
+      )
+
+      expect(events).toEqual([])
+    })
+  })
+
+  describe('#signProvenance', () => {
+    let signer: Wallet
+    let provenance: Provenance
+
+    beforeEach(() => {
+      signer = Wallet.createRandom()
+      provenance = {
+        chainId: 1,
+        tokenAddress: itemAddress,
+        tokenId: '1',
+        creator: alice,
+        owner: bob,
+        events: [
+          { type: 'mint', ...location(1, 0, '0x01'), from: AddressZero, to: alice },
+          { type: 'transfer', ...location(2, 0, '0x02'), from: alice, to: bob },
+        ],
+      }
+    })
+
+    it('round trips through parseProvenanceReport', async () => {
+      const report = parseProvenanceReport(await signProvenance(provenance, signer))
+
+      expect(report.provenance).toEqual(provenance)
+      expect(report.signer).toEqual(signer.address)
+      expect(recoverProvenanceSigner(report)).toEqual(signer.address)
+      expect(isProvenanceReportVerified(report, signer.address)).toBe(true)
+    })
+
+    it('does not verify a report whose events were changed', async () => {
+      const report = parseProvenanceReport(await signProvenance(provenance, signer))
+      report.provenance.events[1].to = carol
+
+      expect(isProvenanceReportVerified(report)).toBe(false)
+    })
+
+    it('does not verify a report signed by another address', async () => {
+      const report = parseProvenanceReport(await signProvenance(provenance, signer))
+
+      expect(isProvenanceReportVerified(report, carol)).toBe(false)
+    })
+
+    it('raises if the version is unsupported', async () => {
+      const json = JSON.parse(await signProvenance(provenance, signer))
+
+      expect(() =>
+        parseProvenanceReport(JSON.stringify({ ...json, version: 2 }))
+      ).toThrow('Unsupported provenance report version: 2')
+    })
+  })
+})
@@ -1,6 +1,6 @@
 import axios from 'axios'
 import MockAdapter from 'axios-mock-adapter'
-import { getMotifProfiles } from '../src'
+import { getMotifProfiles, InvalidArgumentError, RequestError } from '../src'
 
 jest.setTimeout(1000000)
 
@@ -23,6 +23,7 @@ describe('Users', () => {
           throw new Error('should throw')
         } catch (err) {
           expect(err).toEqual(Error('Empty addresses array'))
+          expect(err).toBeInstanceOf(InvalidArgumentError)
         }
         expect(spy).not.toHaveBeenCalled()
       })
@@ -35,6 +36,7 @@ describe('Users', () => {
           throw new Error('should throw')
         } catch (err) {
           expect(err).toEqual(Error('Addresses array exceeds max length of 100'))
+          expect(err).toBeInstanceOf(InvalidArgumentError)
         }
         expect(spy).not.toHaveBeenCalled()
       })
@@ -53,6 +55,8 @@ describe('Users', () => {
           throw new Error('should throw')
         } catch (err) {
           expect(err).toEqual(Error('Custom error message from motif api'))
+          expect(err).toBeInstanceOf(RequestError)
+          expect(err.status).toBe(400)
         }
       })
 
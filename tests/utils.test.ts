@@ -6,6 +6,7 @@ import {
   constructItemData,
   isItemDataVerified,
   isURIHashVerified,
+  normalizeCurrencyAmount,
   recoverSignatureFromMintWithSig,
   recoverSignatureFromPermit,
   sha256FromBuffer,
@@ -109,9 +110,7 @@ describe('Utils', () => {
             metadataHash.concat('42n3jk')
           )
         }).toThrow(
-          `Invariant failed: ${contentHash.concat(
-            'zmxnx'
-          )} is not a 0x prefixed 32 bytes hex string`
+          `${contentHash.concat('zmxnx')} is not a 0x prefixed 32 bytes hex string`
         )
       })
 
@@ -124,10 +123,7 @@ describe('Utils', () => {
             metadataHash
           )
         }).toThrow(
-          `Invariant failed: ${contentHash.substr(
-            0,
-            62
-          )} is not a 0x prefixed 32 bytes hex string`
+          `${contentHash.substr(0, 62)} is not a 0x prefixed 32 bytes hex string`
         )
       })
 
@@ -163,7 +159,7 @@ describe('Utils', () => {
             contentHash,
             metadataHash
           )
-        }).toThrow(`Invariant failed: some metadata uri must begin with \`https://\``)
+        }).toThrow(`some metadata uri must begin with \`https://\``)
       })
 
       it('raises if contentURI does not begin with `https://`', () => {
@@ -174,7 +170,7 @@ describe('Utils', () => {
             contentHash,
             metadataHash
           )
-        }).toThrow(`Invariant failed: some content uri must begin with \`https://\``)
+        }).toThrow(`some content uri must begin with \`https://\``)
       })
     })
 
@@ -251,10 +247,7 @@ describe('Utils', () => {
         expect(() => {
           constructBid(dai.substr(0, 38), decimal100.value, bidder, bidder, 10)
         }).toThrow(
-          `Currency address is invalid: Invariant failed: ${dai.substr(
-            0,
-            38
-          )} is not a valid address.`
+          `Currency address is invalid: ${dai.substr(0, 38)} is not a valid address.`
         )
       })
 
@@ -262,10 +255,7 @@ describe('Utils', () => {
         expect(() => {
           constructBid(dai, decimal100.value, bidder.substr(0, 10), bidder, 10)
         }).toThrow(
-          `Bidder address is invalid: Invariant failed: ${bidder.substr(
-            0,
-            10
-          )} is not a valid address.`
+          `Bidder address is invalid: ${bidder.substr(0, 10)} is not a valid address.`
         )
       })
 
@@ -273,10 +263,7 @@ describe('Utils', () => {
         expect(() => {
           constructBid(dai, decimal100.value, bidder, bidder.substr(0, 10), 10)
         }).toThrow(
-          `Recipient address is invalid: Invariant failed: ${bidder.substr(
-            0,
-            10
-          )} is not a valid address.`
+          `Recipient address is invalid: ${bidder.substr(0, 10)} is not a valid address.`
         )
       })
     })
@@ -317,9 +304,7 @@ describe('Utils', () => {
         '0xb3c06ba3db658c3fe9e4530d033c102c556ff25166a0fc442cf6a1ced025022f'
       expect(() => {
         validateBytes32(validHex)
-      }).not.toThrow(
-        `Invariant failed: ${validHex} is not a 0x prefixed 32 bytes hex string`
-      )
+      }).not.toThrow(`${validHex} is not a 0x prefixed 32 bytes hex string`)
     })
 
     it('raises when a hex string without a 0x prefix is passed', () => {
@@ -327,9 +312,7 @@ describe('Utils', () => {
         'b3c06ba3db658c3fe9e4530d033c102c556ff25166a0fc442cf6a1ced025022f'
       expect(() => {
         validateBytes32(nonPrefixedHex)
-      }).toThrow(
-        `Invariant failed: ${nonPrefixedHex} is not a 0x prefixed 32 bytes hex string`
-      )
+      }).toThrow(`${nonPrefixedHex} is not a 0x prefixed 32 bytes hex string`)
     })
 
     it('raises when a hex string greater than 32 bytes characters is passed', () => {
@@ -337,18 +320,14 @@ describe('Utils', () => {
         '0xb3c06ba3db658c3fe9e4530d033c102c556ff25166a0fc442cf6a1ced025022fab434b'
       expect(() => {
         validateBytes32(tooLargeHex)
-      }).toThrow(
-        `Invariant failed: ${tooLargeHex} is not a 0x prefixed 32 bytes hex string`
-      )
+      }).toThrow(`${tooLargeHex} is not a 0x prefixed 32 bytes hex string`)
     })
 
     it('raises when a hex string less than 32 bytes is passed', () => {
       const tooSmallHex = 'b3c06ba3db658c3fe9e4530d033c102c556ff25166a0fc442cf6a1ced02502'
       expect(() => {
         validateBytes32(tooSmallHex)
-      }).toThrow(
-        `Invariant failed: ${tooSmallHex} is not a 0x prefixed 32 bytes hex string`
-      )
+      }).toThrow(`${tooSmallHex} is not a 0x prefixed 32 bytes hex string`)
     })
   })
 
@@ -357,7 +336,7 @@ describe('Utils', () => {
       const invalidURI = 'http://example.com'
       expect(() => {
         validateURI(invalidURI)
-      }).toThrow('Invariant failed: http://example.com must begin with `https://`')
+      }).toThrow('http://example.com must begin with `https://`')
     })
 
     it('does not raise if a uri is passed with an `https://` prefix', () => {
@@ -382,7 +361,7 @@ describe('Utils', () => {
           invalidBidShares.prevOwner
         )
       }).toThrow(
-        'Invariant failed: The BidShares sum to 90000000000000000000, but they must sum to 100000000000000000000'
+        'The BidShares sum to 90000000000000000000, but they must sum to 100000000000000000000'
       )
     })
 
@@ -420,6 +399,18 @@ describe('Utils', () => {
     })
   })
 
+  describe('#normalizeCurrencyAmount', () => {
+    it('scales amounts with fewer decimals up to 18 decimals', () => {
+      const result = normalizeCurrencyAmount(1500000, 6)
+      expect(result.toString()).toEqual('1500000000000000000')
+    })
+
+    it('scales amounts with more decimals down to 18 decimals', () => {
+      const result = normalizeCurrencyAmount(BigNumber.from(10).pow(24), 24)
+      expect(result.toString()).toEqual('1000000000000000000')
+    })
+  })
+
   describe('EIP-712 Utilities', () => {
     describe('#signPermitMessage', () => {
       let motifConfig: MotifConfiguredAddresses
@@ -776,7 +767,7 @@ describe('Utils', () => {
           'https://ipfs.io/ipfs/QmRhK7o7gpjkkpubu9EvqDGJEgY1nQxSkP7XsMcaX7pZwV'
 
         mock.onGet(kanyeURI).timeout()
-        await expect(isURIHashVerified(kanyeURI, kanyeHash)).rejects.toBe(
+        await expect(isURIHashVerified(kanyeURI, kanyeHash)).rejects.toThrow(
           'timeout of 10ms exceeded'
         )
       })
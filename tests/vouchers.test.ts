@@ -0,0 +1,122 @@
+import {
+  constructBidShares,
+  constructItemData,
+  InvalidURIError,
+  isMintVoucherExpired,
+  isMintVoucherVerified,
+  MintVoucher,
+  parseMintVoucher,
+  recoverMintVoucherSigner,
+  serializeMintVoucher,
+  sha256FromBuffer,
+  signMintWithSigMessage,
+} from '../src'
+import { Wallet } from '@ethersproject/wallet'
+import { BigNumber } from '@ethersproject/bignumber'
+
+describe('Vouchers', () => {
+  let creator: Wallet
+  let voucher: MintVoucher
+
+  beforeEach(async () => {
+    creator = Wallet.createRandom()
+    const data = constructItemData(
+      'https://example.com',
+      'https://metadata.com',
+      sha256FromBuffer(Buffer.from('some content')),
+      sha256FromBuffer(Buffer.from('some metadata'))
+    )
+    const bidShares = constructBidShares(10, 90, 0)
+    const domain = {
+      name: 'Motif',
+      version: '1',
+      chainId: 1,
+      verifyingContract: '0x1dC4c1cEFEF38a777b15aA20260a54E584b16C48',
+    }
+    const deadline = Math.floor(new Date().getTime() / 1000) + 60 * 60 * 24 // 24 hours
+    const sig = await signMintWithSigMessage(
+      creator,
+      data.contentHash,
+      data.metadataHash,
+      bidShares.creator.value,
+      0,
+      deadline,
+      domain
+    )
+
+    voucher = {
+      kind: 'item',
+      creator: creator.address,
+      data: data,
+      bidShares: bidShares,
+      nonce: 0,
+      domain: domain,
+      sig: sig,
+    }
+  })
+
+  describe('#recoverMintVoucherSigner', () => {
+    it('recovers the creator', async () => {
+      const recovered = await recoverMintVoucherSigner(voucher)
+      expect(recovered).toBe(creator.address)
+      expect(await isMintVoucherVerified(voucher)).toBe(true)
+    })
+
+    it('does not verify a voucher whose bid shares were changed', async () => {
+      const tampered = { ...voucher, bidShares: constructBidShares(50, 50, 0) }
+      expect(await isMintVoucherVerified(tampered)).toBe(false)
+    })
+  })
+
+  describe('#serializeMintVoucher', () => {
+    it('round trips through parseMintVoucher', async () => {
+      const json = serializeMintVoucher(voucher)
+      const parsed = parseMintVoucher(json)
+
+      expect(serializeMintVoucher(parsed)).toBe(json)
+      expect(parsed.bidShares.creator.value.toString()).toBe(
+        voucher.bidShares.creator.value.toString()
+      )
+      expect(await isMintVoucherVerified(parsed)).toBe(true)
+    })
+
+    it('keeps isDefault for avatar vouchers', () => {
+      const avatarVoucher: MintVoucher = {
+        ...voucher,
+        kind: 'avatar',
+        data: { ...voucher.data, isDefault: true },
+      }
+      const parsed = parseMintVoucher(serializeMintVoucher(avatarVoucher))
+      expect(parsed.data).toHaveProperty('isDefault', true)
+    })
+
+    it('validates the uris with the specified uri policy', () => {
+      const json = JSON.parse(serializeMintVoucher(voucher))
+      json.data.tokenURI =
+        'ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi'
+      json.data.metadataURI = 'ar://bNbA3TEQVL60xlgCcqdz4ZPHFZ711cZ3hmkpGttDt_U'
+
+      expect(() => parseMintVoucher(JSON.stringify(json))).toThrow(InvalidURIError)
+      const parsed = parseMintVoucher(JSON.stringify(json), {
+        protocols: ['https', 'ipfs', 'ar'],
+      })
+      expect(parsed.data.tokenURI).toBe(json.data.tokenURI)
+    })
+
+    it('raises if the version is unsupported', () => {
+      const json = JSON.parse(serializeMintVoucher(voucher))
+      json.version = 2
+      expect(() => {
+        parseMintVoucher(JSON.stringify(json))
+      }).toThrow('Unsupported mint voucher version: 2')
+    })
+  })
+
+  describe('#isMintVoucherExpired', () => {
+    it('compares the deadline against the specified timestamp', () => {
+      const deadline = BigNumber.from(voucher.sig.deadline).toNumber()
+      expect(isMintVoucherExpired(voucher, deadline - 1)).toBe(false)
+      expect(isMintVoucherExpired(voucher, deadline)).toBe(true)
+    })
+  })
+})